@@ -1,27 +1,50 @@
+import { useEffect } from "react";
 import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
+import History from "./pages/History";
+import Import from "./pages/Import";
+import Compliance from "./pages/Compliance";
+import Invoices from "./pages/Invoices";
+import Leave from "./pages/Leave";
+import Overtime from "./pages/Overtime";
+import Projects from "./pages/Projects";
+import Settings from "./pages/Settings";
 import NotFound from "./pages/NotFound";
+import { showPendingNotices } from "@/lib/storage";
 
 const queryClient = new QueryClient();
 
-const App = () => (
-  <QueryClientProvider client={queryClient}>
-    <TooltipProvider>
-      <Toaster />
-      <Sonner />
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Index />} />
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </BrowserRouter>
-    </TooltipProvider>
-  </QueryClientProvider>
-);
+const App = () => {
+  // Effects run child first, so the toasters below are listening by now
+  useEffect(showPendingNotices, []);
+
+  return (
+    <QueryClientProvider client={queryClient}>
+      <TooltipProvider>
+        <Toaster />
+        <Sonner />
+        <BrowserRouter>
+          <Routes>
+            <Route path="/" element={<Index />} />
+            <Route path="/history" element={<History />} />
+            <Route path="/import" element={<Import />} />
+            <Route path="/projects" element={<Projects />} />
+            <Route path="/compliance" element={<Compliance />} />
+            <Route path="/invoices" element={<Invoices />} />
+            <Route path="/leave" element={<Leave />} />
+            <Route path="/overtime" element={<Overtime />} />
+            <Route path="/settings" element={<Settings />} />
+            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </BrowserRouter>
+      </TooltipProvider>
+    </QueryClientProvider>
+  );
+};
 
 export default App;
@@ -0,0 +1,137 @@
+import { ChangeEvent, useRef, useState } from "react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { Download, Upload } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Backup, RestoreMode, createBackup, parseBackup, restoreBackup } from "@/lib/backup";
+import { downloadFile } from "@/lib/export";
+import { countMergeOverlaps, reportStorageError } from "@/lib/storage";
+
+interface BackupCardProps {
+  onRestored: () => void;
+}
+
+const BackupCard = ({ onRestored }: BackupCardProps) => {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [pendingBackup, setPendingBackup] = useState<Backup>();
+  const [overlapCount, setOverlapCount] = useState(0);
+
+  const handleDownload = async () => {
+    try {
+      const backup = await createBackup();
+      downloadFile(
+        `work-tracker-backup_${format(new Date(), "yyyy-MM-dd")}.json`,
+        JSON.stringify(backup, null, 2),
+        "application/json",
+      );
+      toast.success("Backup downloaded!", {
+        description: `${backup.sessions.length} sessions and ${backup.weeks.length} archived weeks`,
+      });
+    } catch (error) {
+      reportStorageError(error);
+    }
+  };
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    let backup: Backup;
+    try {
+      backup = parseBackup(await file.text());
+    } catch (error) {
+      toast.error("This backup cannot be restored.", { description: (error as Error).message });
+      return;
+    }
+
+    try {
+      setOverlapCount(await countMergeOverlaps(backup));
+      setPendingBackup(backup);
+    } catch (error) {
+      reportStorageError(error);
+    }
+  };
+
+  const handleRestore = async (mode: RestoreMode) => {
+    const backup = pendingBackup;
+    setPendingBackup(undefined);
+    let skipped: number;
+    try {
+      skipped = await restoreBackup(backup, mode);
+    } catch (error) {
+      reportStorageError(error);
+      return;
+    }
+
+    onRestored();
+    toast.success(mode === "replace" ? "Backup restored!" : "Backup merged into your data!", {
+      description:
+        skipped > 0
+          ? `${skipped} ${skipped === 1 ? "session was" : "sessions were"} skipped for overlapping time already tracked.`
+          : undefined,
+    });
+  };
+
+  return (
+    <Card className="p-6 shadow-card border-border/50 animate-slide-up" style={{ animationDelay: "0.4s" }}>
+      <h2 className="text-lg font-semibold mb-2">Backup</h2>
+      <p className="text-sm text-muted-foreground mb-4">
+        Your hours only live in this browser. Download a backup of every week and your settings, and restore it after
+        clearing browser data or on another device.
+      </p>
+      <div className="flex flex-wrap gap-2">
+        <Button variant="outline" onClick={handleDownload}>
+          <Download className="h-4 w-4 mr-2" />
+          Download backup
+        </Button>
+        <Button variant="outline" onClick={() => fileInput.current?.click()}>
+          <Upload className="h-4 w-4 mr-2" />
+          Restore from backup
+        </Button>
+        <input ref={fileInput} type="file" accept=".json,application/json" className="hidden" onChange={handleFile} />
+      </div>
+
+      <AlertDialog open={!!pendingBackup} onOpenChange={open => !open && setPendingBackup(undefined)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore this backup?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingBackup &&
+                `Made on ${format(new Date(pendingBackup.exportedAt), "MMM d, yyyy 'at' HH:mm")} with ${pendingBackup.sessions.length} sessions. `}
+              Replacing deletes everything tracked in this browser first and cannot be undone. Merging only adds
+              sessions and weeks that are missing here and keeps your current settings.
+              {overlapCount > 0 &&
+                ` ${overlapCount} of its ${overlapCount === 1 ? "session overlaps" : "sessions overlap"} time already tracked here and would be skipped when merging.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <Button variant="outline" onClick={() => handleRestore("merge")}>
+              Merge
+            </Button>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => handleRestore("replace")}
+            >
+              Replace everything
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
+
+export default BackupCard;
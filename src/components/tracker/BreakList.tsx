@@ -0,0 +1,33 @@
+import { Coffee } from "lucide-react";
+import type { BreakInterval } from "@/types/tracker";
+import { formatClock, formatDuration } from "@/lib/tracker";
+
+interface BreakListProps {
+  breaks?: BreakInterval[];
+  pausedAt?: string; // a break still in progress
+  className?: string;
+}
+
+const BreakList = ({ breaks = [], pausedAt, className = "" }: BreakListProps) => {
+  if (breaks.length === 0 && !pausedAt) return null;
+
+  return (
+    <div className={`space-y-0.5 text-xs text-muted-foreground ${className}`}>
+      {breaks.map(b => (
+        <p key={b.startTime} className="flex items-center gap-1.5">
+          <Coffee className="h-3 w-3" />
+          Break {formatClock(new Date(b.startTime))} - {formatClock(new Date(b.endTime))} ·{" "}
+          {formatDuration(Math.floor((new Date(b.endTime).getTime() - new Date(b.startTime).getTime()) / 1000))}
+        </p>
+      ))}
+      {pausedAt && (
+        <p className="flex items-center gap-1.5 text-warning">
+          <Coffee className="h-3 w-3" />
+          On a break since {formatClock(new Date(pausedAt))}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default BreakList;
@@ -0,0 +1,136 @@
+import { AlertTriangle, Pencil, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import ProjectLabel from "@/components/tracker/ProjectLabel";
+import BreakList from "@/components/tracker/BreakList";
+import SessionNotes from "@/components/tracker/SessionNotes";
+import type { DailyEntry, Project, WorkSession } from "@/types/tracker";
+import { formatClock, formatDuration } from "@/lib/tracker";
+import { findProject } from "@/lib/projects";
+import { getBreakSeconds, getSessionSeconds } from "@/lib/sessions";
+import type { ComplianceViolation } from "@/lib/compliance";
+import {
+  RoundingSettings,
+  getBillableDaySeconds,
+  getBillableSessionSeconds,
+  isRoundingEnabled,
+} from "@/lib/rounding";
+import { Earnings, formatMoney } from "@/lib/rates";
+
+interface DailyEntryCardProps {
+  entry: DailyEntry;
+  dailyMinimumMinutes: number;
+  // Each session shows its project once any project has been set up
+  projects?: Project[];
+  violations?: ComplianceViolation[];
+  // Billable time is shown next to the tracked time when rounding is on
+  rounding?: RoundingSettings;
+  // Money earned per session and for the day, once any rate is set
+  earnings?: Earnings;
+  currency?: string;
+  // Hides sessions that do not match a search; the day total still counts them
+  matches?: (session: WorkSession) => boolean;
+  // Row actions are only shown when handlers are given, so archived weeks stay read-only
+  onEditSession?: (sessionIndex: number) => void;
+  onDeleteSession?: (sessionIndex: number) => void;
+}
+
+const DailyEntryCard = ({
+  entry,
+  dailyMinimumMinutes,
+  projects = [],
+  violations = [],
+  rounding,
+  earnings,
+  currency,
+  matches = () => true,
+  onEditSession,
+  onDeleteSession,
+}: DailyEntryCardProps) => {
+  const breakSeconds = getBreakSeconds(entry.sessions);
+  const metMinimum = entry.totalSeconds >= dailyMinimumMinutes * 60;
+  const billing = rounding && isRoundingEnabled(rounding) ? rounding : undefined;
+
+  return (
+    <div className="p-4 rounded-lg bg-muted/30 border border-border/50 space-y-3">
+      <div className="flex items-center justify-between pb-2 border-b border-border/50">
+        <span className="font-semibold text-foreground">{entry.displayDate}</span>
+        <div className="flex items-center gap-3">
+          {breakSeconds > 0 && (
+            <span className="text-xs text-muted-foreground">{formatDuration(breakSeconds)} break</span>
+          )}
+          <span className={`text-sm font-medium ${metMinimum ? 'text-success' : 'text-warning'}`}>
+            {formatDuration(entry.totalSeconds)}
+            {!metMinimum && ' ⚠️'}
+          </span>
+          {billing && (
+            <span className="text-xs text-muted-foreground">
+              {formatDuration(getBillableDaySeconds(entry, billing))} billable
+            </span>
+          )}
+          {earnings && (
+            <span className="text-xs text-muted-foreground">
+              {formatMoney(earnings.days.get(entry.date) ?? 0, currency)}
+            </span>
+          )}
+        </div>
+      </div>
+
+      {violations.length > 0 && (
+        <div className="space-y-1 rounded-md bg-warning/10 border border-warning/20 px-3 py-2">
+          {violations.map(violation => (
+            <p key={violation.rule} className="flex items-start gap-2 text-xs text-warning">
+              <AlertTriangle className="h-3.5 w-3.5 mt-0.5 flex-shrink-0" />
+              {violation.message}
+            </p>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {entry.sessions.map((session, sessionIndex) => matches(session) && (
+          <div key={sessionIndex} className="space-y-1">
+            <div className="flex items-center justify-between text-sm pl-3">
+              <div className="flex items-center gap-3 min-w-0">
+                <span className="text-muted-foreground flex-shrink-0">
+                  {formatClock(new Date(session.startTime))} - {formatClock(new Date(session.endTime))}
+                </span>
+                {projects.length > 0 && (
+                  <ProjectLabel project={findProject(projects, session.projectId)} className="text-xs text-muted-foreground" />
+                )}
+              </div>
+              <div className="flex items-center gap-1">
+                {earnings?.sessions.has(session.id) && (
+                  <span className="text-xs text-muted-foreground mr-2">
+                    {formatMoney(earnings.sessions.get(session.id), currency)}
+                  </span>
+                )}
+                {billing?.scope === "session" && (
+                  <span className="text-xs text-muted-foreground mr-2">
+                    {formatDuration(getBillableSessionSeconds(session, billing))} billable
+                  </span>
+                )}
+                <span className="text-foreground font-medium">
+                  {formatDuration(getSessionSeconds(session))}
+                </span>
+                {onEditSession && (
+                  <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => onEditSession(sessionIndex)} aria-label="Edit session">
+                    <Pencil className="h-3.5 w-3.5" />
+                  </Button>
+                )}
+                {onDeleteSession && (
+                  <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => onDeleteSession(sessionIndex)} aria-label="Delete session">
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                )}
+              </div>
+            </div>
+            <BreakList breaks={session.breaks} className="pl-3" />
+            <SessionNotes note={session.note} tags={session.tags} className="pl-3" />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default DailyEntryCard;
@@ -0,0 +1,190 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { toast } from "sonner";
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { toDateKey } from "@/lib/settings";
+import { groupSessionsByDay } from "@/lib/sessions";
+import { getProjects } from "@/lib/projects";
+import { getRoundingSettings } from "@/lib/rounding";
+import { loadSessionsBetween, loadSettings, reportStorageError } from "@/lib/storage";
+import { ExportFormValues, dailyTotalsToCsv, downloadFile, exportFormSchema, sessionsToCsv } from "@/lib/export";
+import { sessionsToIcs } from "@/lib/ical";
+
+interface ExportDialogProps {
+  weekStart: Date;
+}
+
+const ExportDialog = ({ weekStart }: ExportDialogProps) => {
+  const [open, setOpen] = useState(false);
+
+  const form = useForm<ExportFormValues>({
+    resolver: zodResolver(exportFormSchema),
+    defaultValues: {
+      from: toDateKey(weekStart),
+      to: toDateKey(new Date()),
+      format: "csv",
+      includeDailyTotals: false,
+    },
+  });
+
+  const selectedFormat = form.watch("format");
+
+  const setRange = (from: Date, to: Date) => {
+    form.setValue("from", toDateKey(from));
+    form.setValue("to", toDateKey(to));
+  };
+
+  const onSubmit = async (values: ExportFormValues) => {
+    let sessions;
+    try {
+      sessions = await loadSessionsBetween(values.from, values.to);
+    } catch (error) {
+      reportStorageError(error);
+      return;
+    }
+
+    if (sessions.length === 0) {
+      form.setError("from", { message: "No sessions were logged in this range" });
+      return;
+    }
+
+    const name = `work-sessions_${values.from}_${values.to}`;
+    const settings = loadSettings();
+    const projects = getProjects(settings);
+    const rounding = getRoundingSettings(settings);
+    if (values.format === "ics") {
+      downloadFile(`${name}.ics`, sessionsToIcs(sessions, projects), "text/calendar");
+    } else {
+      downloadFile(`${name}.csv`, sessionsToCsv(sessions, projects, rounding), "text/csv");
+    }
+    if (values.format === "csv" && values.includeDailyTotals) {
+      downloadFile(`${name}_daily.csv`, dailyTotalsToCsv(groupSessionsByDay(sessions), rounding), "text/csv");
+    }
+
+    setOpen(false);
+    toast.success(`Exported ${sessions.length} ${sessions.length === 1 ? "session" : "sessions"}!`);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm">
+          <Download className="h-4 w-4 mr-2" />
+          Export
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Export Sessions</DialogTitle>
+          <DialogDescription>
+            Download sessions as CSV for payroll and invoicing sheets, or as a calendar file to overlay on Google or
+            Outlook.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" size="sm" onClick={() => setRange(new Date(), new Date())}>
+                Today
+              </Button>
+              <Button type="button" variant="outline" size="sm" onClick={() => setRange(weekStart, new Date())}>
+                This week
+              </Button>
+            </div>
+            <div className="grid gap-4 grid-cols-2">
+              <FormField
+                control={form.control}
+                name="from"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>From</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="to"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>To</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="format"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Format</FormLabel>
+                  <FormControl>
+                    <RadioGroup value={field.value} onValueChange={field.onChange} className="flex gap-4">
+                      <FormItem className="flex items-center gap-2 space-y-0">
+                        <FormControl>
+                          <RadioGroupItem value="csv" />
+                        </FormControl>
+                        <FormLabel className="font-normal">CSV spreadsheet</FormLabel>
+                      </FormItem>
+                      <FormItem className="flex items-center gap-2 space-y-0">
+                        <FormControl>
+                          <RadioGroupItem value="ics" />
+                        </FormControl>
+                        <FormLabel className="font-normal">Calendar (.ics)</FormLabel>
+                      </FormItem>
+                    </RadioGroup>
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+            {selectedFormat === "csv" && (
+              <FormField
+                control={form.control}
+                name="includeDailyTotals"
+                render={({ field }) => (
+                  <FormItem className="flex items-center gap-2 space-y-0">
+                    <FormControl>
+                      <Checkbox checked={field.value} onCheckedChange={field.onChange} />
+                    </FormControl>
+                    <FormLabel className="font-normal">Also download a daily totals sheet</FormLabel>
+                  </FormItem>
+                )}
+              />
+            )}
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit">Export</Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ExportDialog;
@@ -0,0 +1,83 @@
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Invoice, formatInvoiceDate } from "@/lib/invoices";
+import { formatMoney } from "@/lib/rates";
+
+interface InvoicePreviewProps {
+  invoice: Invoice;
+}
+
+// The invoice as it prints; the page around it hides itself when printing
+const InvoicePreview = ({ invoice }: InvoicePreviewProps) => {
+  const money = (amount: number) => formatMoney(amount, invoice.currency);
+
+  return (
+    <div className="space-y-8 text-sm text-foreground">
+      <div className="flex items-start justify-between gap-4">
+        <h2 className="text-3xl font-bold">Invoice</h2>
+        <div className="text-right">
+          <p className="font-semibold">{invoice.number}</p>
+          <p className="text-muted-foreground">Issued {formatInvoiceDate(invoice.issueDate)}</p>
+          <p className="text-muted-foreground">Due {formatInvoiceDate(invoice.dueDate)}</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <p className="font-semibold">From</p>
+          <p className="whitespace-pre-line text-muted-foreground">{invoice.issuer || "—"}</p>
+        </div>
+        <div>
+          <p className="font-semibold">Bill to</p>
+          <p className="whitespace-pre-line text-muted-foreground">{invoice.billTo}</p>
+        </div>
+      </div>
+
+      <p className="text-muted-foreground">
+        Work from {formatInvoiceDate(invoice.from)} to {formatInvoiceDate(invoice.to)}
+      </p>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Description</TableHead>
+            <TableHead className="text-right">Hours</TableHead>
+            <TableHead className="text-right">Rate</TableHead>
+            <TableHead className="text-right">Amount</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {invoice.lines.map(line => (
+            <TableRow key={`${line.project?.id}:${line.hourlyRate}`}>
+              <TableCell>{line.description}</TableCell>
+              <TableCell className="text-right">{line.hours.toFixed(2)}</TableCell>
+              <TableCell className="text-right">{money(line.hourlyRate)}</TableCell>
+              <TableCell className="text-right">{money(line.amount)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+        <TableFooter>
+          <TableRow>
+            <TableCell colSpan={3} className="text-right">
+              Subtotal
+            </TableCell>
+            <TableCell className="text-right">{money(invoice.subtotal)}</TableCell>
+          </TableRow>
+          <TableRow>
+            <TableCell colSpan={3} className="text-right">
+              Tax ({invoice.taxPercent}%)
+            </TableCell>
+            <TableCell className="text-right">{money(invoice.tax)}</TableCell>
+          </TableRow>
+          <TableRow>
+            <TableCell colSpan={3} className="text-right font-bold">
+              Total
+            </TableCell>
+            <TableCell className="text-right font-bold">{money(invoice.total)}</TableCell>
+          </TableRow>
+        </TableFooter>
+      </Table>
+    </div>
+  );
+};
+
+export default InvoicePreview;
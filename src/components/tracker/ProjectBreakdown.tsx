@@ -0,0 +1,41 @@
+import ProjectLabel from "@/components/tracker/ProjectLabel";
+import { formatDuration } from "@/lib/tracker";
+import type { ProjectTotal } from "@/lib/projects";
+
+interface ProjectBreakdownProps {
+  totals: ProjectTotal[];
+}
+
+const ProjectBreakdown = ({ totals }: ProjectBreakdownProps) => {
+  const totalSeconds = totals.reduce((sum, t) => sum + t.seconds, 0);
+
+  return (
+    <div className="p-4 rounded-lg bg-muted/30 border border-border/50 space-y-3">
+      <span className="font-semibold text-foreground">By Project</span>
+      {totals.map(({ project, seconds }) => (
+        <div key={project?.id ?? "none"} className="space-y-1">
+          <div className="flex items-center justify-between gap-3 text-sm">
+            <ProjectLabel project={project} />
+            <span className="text-foreground font-medium flex-shrink-0">
+              {formatDuration(seconds)}
+              <span className="ml-2 text-xs text-muted-foreground">
+                {totalSeconds > 0 ? Math.round((seconds / totalSeconds) * 100) : 0}%
+              </span>
+            </span>
+          </div>
+          <div className="h-1.5 rounded-full bg-secondary overflow-hidden">
+            <div
+              className="h-full rounded-full bg-muted-foreground/40"
+              style={{
+                width: `${totalSeconds > 0 ? (seconds / totalSeconds) * 100 : 0}%`,
+                backgroundColor: project?.color,
+              }}
+            />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ProjectBreakdown;
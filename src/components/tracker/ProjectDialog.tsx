@@ -0,0 +1,132 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Check } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import type { Project } from "@/types/tracker";
+import {
+  PROJECT_COLORS,
+  ProjectFormValues,
+  fromProjectFormValues,
+  projectFormSchema,
+  toProjectFormValues,
+} from "@/lib/projects";
+
+interface ProjectDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projects: Project[];
+  // The project being edited; omitted when adding a new one
+  editing?: Project;
+  onSave: (project: Project) => void;
+}
+
+const ProjectDialog = ({ open, onOpenChange, projects, editing, onSave }: ProjectDialogProps) => {
+  const form = useForm<ProjectFormValues>({
+    resolver: zodResolver(projectFormSchema),
+    defaultValues: toProjectFormValues(),
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset(toProjectFormValues(editing));
+    }
+  }, [open, editing, form]);
+
+  const onSubmit = (values: ProjectFormValues) => {
+    const project = fromProjectFormValues(values, editing);
+    const duplicate = projects.find(
+      p =>
+        p.id !== project.id &&
+        p.name.toLowerCase() === project.name.toLowerCase() &&
+        (p.client ?? "").toLowerCase() === (project.client ?? "").toLowerCase(),
+    );
+    if (duplicate) {
+      form.setError("name", { message: "There is already a project with this name for this client" });
+      return;
+    }
+
+    onSave(project);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{editing ? "Edit Project" : "New Project"}</DialogTitle>
+          <DialogDescription>Sessions booked to a project are totalled per project every week.</DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Website redesign" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="client"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Client (optional)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Acme Inc." {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="color"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Color</FormLabel>
+                  <div className="flex flex-wrap gap-2">
+                    {PROJECT_COLORS.map(color => (
+                      <button
+                        key={color}
+                        type="button"
+                        className="flex h-8 w-8 items-center justify-center rounded-full border border-border transition-transform hover:scale-110"
+                        style={{ backgroundColor: color }}
+                        onClick={() => field.onChange(color)}
+                        aria-label={`Use color ${color}`}
+                        aria-pressed={field.value === color}
+                      >
+                        {field.value === color && <Check className="h-4 w-4 text-white" />}
+                      </button>
+                    ))}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit">{editing ? "Save changes" : "Add project"}</Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ProjectDialog;
@@ -0,0 +1,19 @@
+import type { Project } from "@/types/tracker";
+import { getProjectLabel } from "@/lib/projects";
+
+interface ProjectLabelProps {
+  project?: Project;
+  className?: string;
+}
+
+const ProjectLabel = ({ project, className = "" }: ProjectLabelProps) => (
+  <span className={`inline-flex items-center gap-1.5 min-w-0 ${className}`}>
+    <span
+      className="h-2.5 w-2.5 flex-shrink-0 rounded-full border border-border"
+      style={{ backgroundColor: project?.color ?? "transparent" }}
+    />
+    <span className="truncate">{project ? getProjectLabel(project) : "No project"}</span>
+  </span>
+);
+
+export default ProjectLabel;
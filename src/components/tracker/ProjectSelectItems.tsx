@@ -0,0 +1,24 @@
+import { SelectItem } from "@/components/ui/select";
+import ProjectLabel from "@/components/tracker/ProjectLabel";
+import type { Project } from "@/types/tracker";
+import { NO_PROJECT } from "@/lib/projects";
+
+interface ProjectSelectItemsProps {
+  projects: Project[];
+}
+
+// The options of a project picker, led by "No project"
+const ProjectSelectItems = ({ projects }: ProjectSelectItemsProps) => (
+  <>
+    <SelectItem value={NO_PROJECT}>
+      <ProjectLabel />
+    </SelectItem>
+    {projects.map(project => (
+      <SelectItem key={project.id} value={project.id}>
+        <ProjectLabel project={project} />
+      </SelectItem>
+    ))}
+  </>
+);
+
+export default ProjectSelectItems;
@@ -0,0 +1,204 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { toast } from "sonner";
+import { Trash2 } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { TrackerSettings, toDateKey } from "@/lib/settings";
+import { getProjectLabel, getProjects } from "@/lib/projects";
+import {
+  ALL_WORK,
+  CURRENCIES,
+  RateFormValues,
+  formatMoney,
+  fromRateFormValues,
+  getClients,
+  getCurrency,
+  getRateTarget,
+  getRates,
+  rateFormSchema,
+  removeRate,
+  toRateTargetValue,
+  upsertRate,
+} from "@/lib/rates";
+
+interface RatesCardProps {
+  settings: TrackerSettings;
+  onChange: (settings: TrackerSettings) => void;
+}
+
+const RatesCard = ({ settings, onChange }: RatesCardProps) => {
+  const projects = getProjects(settings);
+  const rates = getRates(settings);
+  const currency = getCurrency(settings);
+
+  const form = useForm<RateFormValues>({
+    resolver: zodResolver(rateFormSchema),
+    defaultValues: {
+      appliesTo: ALL_WORK,
+      effectiveFrom: toDateKey(new Date()),
+      hourlyRate: 0,
+      overtimeMultiplier: 1,
+    },
+  });
+
+  const onSubmit = (values: RateFormValues) => {
+    const rate = fromRateFormValues(values);
+    onChange(upsertRate(settings, rate));
+    toast.success("Rate saved!", {
+      description: `${formatMoney(rate.hourlyRate, currency)} an hour for ${getRateTarget(rate, projects)} from ${rate.effectiveFrom}`,
+    });
+  };
+
+  const handleDelete = (id: string) => {
+    onChange(removeRate(settings, id));
+    toast.info("Rate removed.");
+  };
+
+  return (
+    <Card className="p-6 shadow-card border-border/50 animate-slide-up" style={{ animationDelay: "0.2s" }}>
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-2">
+        <h2 className="text-lg font-semibold">Hourly Rates</h2>
+        <div className="flex items-center gap-2">
+          <Label htmlFor="currency" className="text-sm text-muted-foreground">
+            Currency
+          </Label>
+          <Select value={currency} onValueChange={value => onChange({ ...settings, currency: value })}>
+            <SelectTrigger id="currency" className="w-24">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CURRENCIES.map(code => (
+                <SelectItem key={code} value={code}>
+                  {code}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-4">
+            <FormField
+              control={form.control}
+              name="appliesTo"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Applies to</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value={ALL_WORK}>All work</SelectItem>
+                      {getClients(projects).map(client => (
+                        <SelectItem key={client} value={toRateTargetValue({ client })}>
+                          Client: {client}
+                        </SelectItem>
+                      ))}
+                      {projects.map(project => (
+                        <SelectItem key={project.id} value={toRateTargetValue({ projectId: project.id })}>
+                          {getProjectLabel(project)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="effectiveFrom"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Effective from</FormLabel>
+                  <FormControl>
+                    <Input type="date" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="hourlyRate"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Per hour ({currency})</FormLabel>
+                  <FormControl>
+                    <Input type="number" step="0.01" min="0" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="overtimeMultiplier"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Overtime multiplier</FormLabel>
+                  <FormControl>
+                    <Input type="number" step="0.05" min="1" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+          <FormDescription>
+            A project's own rate wins over its client's, which wins over the rate for all work. Time beyond the weekly
+            target is paid at the overtime multiplier. Adding a rate for the same work and date replaces it.
+          </FormDescription>
+          <Button type="submit">Save rate</Button>
+        </form>
+      </Form>
+
+      {rates.length > 0 && (
+        <Table className="mt-6">
+          <TableHeader>
+            <TableRow>
+              <TableHead>Applies to</TableHead>
+              <TableHead>Effective from</TableHead>
+              <TableHead>Per hour</TableHead>
+              <TableHead>Overtime</TableHead>
+              <TableHead className="w-12" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {[...rates].reverse().map(rate => (
+              <TableRow key={rate.id}>
+                <TableCell>{getRateTarget(rate, projects)}</TableCell>
+                <TableCell>{rate.effectiveFrom}</TableCell>
+                <TableCell>{formatMoney(rate.hourlyRate, currency)}</TableCell>
+                <TableCell>×{rate.overtimeMultiplier}</TableCell>
+                <TableCell>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleDelete(rate.id)}
+                    aria-label={`Remove rate for ${getRateTarget(rate, projects)} from ${rate.effectiveFrom}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </Card>
+  );
+};
+
+export default RatesCard;
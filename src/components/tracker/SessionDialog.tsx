@@ -0,0 +1,215 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectTrigger, SelectValue } from "@/components/ui/select";
+import ProjectSelectItems from "@/components/tracker/ProjectSelectItems";
+import type { Project, WeekData, WorkSession } from "@/types/tracker";
+import { formatClock } from "@/lib/tracker";
+import { NO_PROJECT } from "@/lib/projects";
+import {
+  SessionDetails,
+  SessionFormValues,
+  SessionRef,
+  findOverlappingSession,
+  fromSessionFormValues,
+  sessionFormSchema,
+  toSessionFormValues,
+} from "@/lib/sessions";
+
+interface SessionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  weekData: Pick<WeekData, "entries" | "activeSession">;
+  weekStart: Date;
+  weekEnd?: Date; // set for an archived week, whose sessions are kept inside it
+  // The session being edited; omitted when adding a new one
+  editing?: { ref: SessionRef; session: WorkSession };
+  projects: Project[];
+  onSave: (start: Date, end: Date, details: SessionDetails, ref?: SessionRef) => void;
+}
+
+const emptyValues = (date: Date): SessionFormValues => ({
+  date: format(date, "yyyy-MM-dd"),
+  startTime: "09:00",
+  endTime: "17:00",
+  projectId: NO_PROJECT,
+  note: "",
+  tags: "",
+});
+
+const SessionDialog = ({
+  open,
+  onOpenChange,
+  weekData,
+  weekStart,
+  weekEnd,
+  editing,
+  projects,
+  onSave,
+}: SessionDialogProps) => {
+  const form = useForm<SessionFormValues>({
+    resolver: zodResolver(sessionFormSchema),
+    defaultValues: emptyValues(weekEnd ? weekStart : new Date()),
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset(editing ? toSessionFormValues(editing.session) : emptyValues(weekEnd ? weekStart : new Date()));
+    }
+  }, [open, editing, weekStart, weekEnd, form]);
+
+  const onSubmit = (values: SessionFormValues) => {
+    const { start, end, ...details } = fromSessionFormValues(values);
+
+    if (weekEnd && (start < weekStart || start > weekEnd)) {
+      form.setError("date", { message: "Pick a day in this week" });
+      return;
+    }
+    if (start < weekStart) {
+      form.setError("date", { message: "This day belongs to an archived week; add or correct it in the history" });
+      return;
+    }
+    if (end > new Date()) {
+      form.setError("endTime", { message: "Sessions cannot end in the future" });
+      return;
+    }
+
+    const overlap = findOverlappingSession(weekData, start, end, editing?.ref);
+    if (overlap) {
+      const overlapStart = new Date(overlap.startTime);
+      form.setError("startTime", {
+        message: `Overlaps the session on ${format(overlapStart, "MMM d")} from ${formatClock(overlapStart)} to ${formatClock(new Date(overlap.endTime))}`,
+      });
+      return;
+    }
+
+    onSave(start, end, details, editing?.ref);
+    onOpenChange(false);
+  };
+
+  // Archived projects are offered only to the session already booked to one
+  const selectable = projects.filter(p => !p.archived || p.id === editing?.session.projectId);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{editing ? "Edit Session" : "Add Session"}</DialogTitle>
+          <DialogDescription>
+            {editing ? "Correct when this session started or ended, or what was done." : "Log time you forgot to track."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="date"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Date</FormLabel>
+                  <FormControl>
+                    <Input type="date" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid gap-4 grid-cols-2">
+              <FormField
+                control={form.control}
+                name="startTime"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Start</FormLabel>
+                    <FormControl>
+                      <Input type="time" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="endTime"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>End</FormLabel>
+                    <FormControl>
+                      <Input type="time" {...field} />
+                    </FormControl>
+                    <FormDescription className="text-xs">Earlier than the start means the next day.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            {selectable.length > 0 && (
+              <FormField
+                control={form.control}
+                name="projectId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Project</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <ProjectSelectItems projects={selectable} />
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+            <FormField
+              control={form.control}
+              name="note"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Note</FormLabel>
+                  <FormControl>
+                    <Textarea rows={2} placeholder="What did you work on?" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="tags"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Tags</FormLabel>
+                  <FormControl>
+                    <Input placeholder="meeting, review" {...field} />
+                  </FormControl>
+                  <FormDescription className="text-xs">Separate tags with commas.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit">{editing ? "Save changes" : "Add session"}</Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SessionDialog;
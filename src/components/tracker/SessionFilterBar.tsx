@@ -0,0 +1,47 @@
+import { Search } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { SessionFilter } from "@/lib/notes";
+
+const ALL_TAGS = "all";
+
+interface SessionFilterBarProps {
+  filter: SessionFilter;
+  onFilterChange: (filter: SessionFilter) => void;
+  tags: string[];
+}
+
+const SessionFilterBar = ({ filter, onFilterChange, tags }: SessionFilterBarProps) => (
+  <div className="flex flex-wrap gap-2">
+    <div className="relative flex-1 min-w-48">
+      <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+      <Input
+        value={filter.query}
+        onChange={e => onFilterChange({ ...filter, query: e.target.value })}
+        placeholder="Search notes, tags and projects"
+        className="pl-9"
+        aria-label="Search sessions"
+      />
+    </div>
+    {tags.length > 0 && (
+      <Select
+        value={filter.tag ?? ALL_TAGS}
+        onValueChange={tag => onFilterChange({ ...filter, tag: tag === ALL_TAGS ? undefined : tag })}
+      >
+        <SelectTrigger className="w-40" aria-label="Filter by tag">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL_TAGS}>All tags</SelectItem>
+          {tags.map(tag => (
+            <SelectItem key={tag} value={tag}>
+              #{tag}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    )}
+  </div>
+);
+
+export default SessionFilterBar;
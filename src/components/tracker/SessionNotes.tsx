@@ -0,0 +1,25 @@
+import { Badge } from "@/components/ui/badge";
+import type { WorkSession } from "@/types/tracker";
+
+interface SessionNotesProps {
+  note?: WorkSession["note"];
+  tags?: WorkSession["tags"];
+  className?: string;
+}
+
+const SessionNotes = ({ note, tags = [], className = "" }: SessionNotesProps) => {
+  if (!note && tags.length === 0) return null;
+
+  return (
+    <div className={`flex flex-wrap items-center gap-1.5 text-xs text-muted-foreground ${className}`}>
+      {note && <p className="basis-full whitespace-pre-line break-words">{note}</p>}
+      {tags.map(tag => (
+        <Badge key={tag} variant="outline" className="px-2 py-0 font-normal text-muted-foreground">
+          #{tag}
+        </Badge>
+      ))}
+    </div>
+  );
+};
+
+export default SessionNotes;
@@ -0,0 +1,117 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { addMinutes, format, min } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { formatClock } from "@/lib/tracker";
+import { formatHours } from "@/lib/settings";
+import {
+  StaleSessionFormValues,
+  StaleSessionReason,
+  fromDateTimeInputValue,
+  staleSessionFormSchema,
+  toDateTimeInputValue,
+} from "@/lib/sessions";
+
+interface StaleSessionDialogProps {
+  startTime?: string;
+  reason?: StaleSessionReason;
+  maxSessionMinutes: number;
+  onResolve: (end: Date) => void;
+  onDiscard: () => void;
+  onKeepRunning: () => void;
+}
+
+const StaleSessionDialog = ({
+  startTime,
+  reason,
+  maxSessionMinutes,
+  onResolve,
+  onDiscard,
+  onKeepRunning,
+}: StaleSessionDialogProps) => {
+  const open = !!startTime && !!reason;
+  const start = startTime ? new Date(startTime) : undefined;
+  const maxEnd = start ? addMinutes(start, maxSessionMinutes) : undefined;
+  const cappedEnd = maxEnd ? min([maxEnd, new Date()]) : undefined;
+
+  const form = useForm<StaleSessionFormValues>({
+    resolver: zodResolver(staleSessionFormSchema),
+    defaultValues: { endAt: "" },
+  });
+
+  useEffect(() => {
+    if (startTime) {
+      form.reset({ endAt: toDateTimeInputValue(new Date(startTime)) });
+    }
+  }, [startTime, form]);
+
+  if (!open) return null;
+
+  const onSubmit = (values: StaleSessionFormValues) => {
+    const end = fromDateTimeInputValue(values.endAt);
+    if (end <= start) {
+      form.setError("endAt", { message: "End time must be after the session started" });
+      return;
+    }
+    if (end > new Date()) {
+      form.setError("endAt", { message: "Sessions cannot end in the future" });
+      return;
+    }
+    onResolve(end);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={isOpen => !isOpen && onKeepRunning()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Did you forget to clock out?</DialogTitle>
+          <DialogDescription>
+            {reason === "overMax"
+              ? `This session has been running for more than ${formatHours(maxSessionMinutes)}.`
+              : "This session has been running since before midnight."}{" "}
+            It started on {format(start, "EEEE, MMM d")} at {formatClock(start)}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="endAt"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>When did you actually stop?</FormLabel>
+                  <FormControl>
+                    <Input type="datetime-local" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button type="submit" className="w-full">
+              End session at this time
+            </Button>
+          </form>
+        </Form>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="outline" onClick={() => onResolve(cappedEnd)}>
+            {cappedEnd < maxEnd ? "End it now" : `Cap at ${formatHours(maxSessionMinutes)}`}
+          </Button>
+          <Button variant="outline" className="text-destructive" onClick={onDiscard}>
+            Discard session
+          </Button>
+          <Button variant="ghost" onClick={onKeepRunning}>
+            I'm still working
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default StaleSessionDialog;
@@ -0,0 +1,120 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectTrigger, SelectValue } from "@/components/ui/select";
+import ProjectSelectItems from "@/components/tracker/ProjectSelectItems";
+import type { Project } from "@/types/tracker";
+import { NO_PROJECT } from "@/lib/projects";
+import {
+  SessionDetails,
+  SessionDetailsFormValues,
+  fromSessionDetailsFormValues,
+  sessionDetailsFormSchema,
+} from "@/lib/sessions";
+
+interface SwitchTaskDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projects: Project[];
+  onSwitch: (details: SessionDetails) => void;
+}
+
+const emptyValues: SessionDetailsFormValues = { projectId: NO_PROJECT, note: "", tags: "" };
+
+const SwitchTaskDialog = ({ open, onOpenChange, projects, onSwitch }: SwitchTaskDialogProps) => {
+  const form = useForm<SessionDetailsFormValues>({
+    resolver: zodResolver(sessionDetailsFormSchema),
+    defaultValues: emptyValues,
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset(emptyValues);
+    }
+  }, [open, form]);
+
+  const onSubmit = (values: SessionDetailsFormValues) => {
+    onSwitch(fromSessionDetailsFormValues(values));
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Switch Task</DialogTitle>
+          <DialogDescription>
+            The current session ends now and the next one starts at the same moment, so no time is lost in between.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            {projects.length > 0 && (
+              <FormField
+                control={form.control}
+                name="projectId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Project</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <ProjectSelectItems projects={projects} />
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+            <FormField
+              control={form.control}
+              name="note"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Note</FormLabel>
+                  <FormControl>
+                    <Textarea rows={2} placeholder="What are you working on next?" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="tags"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Tags</FormLabel>
+                  <FormControl>
+                    <Input placeholder="meeting, review" {...field} />
+                  </FormControl>
+                  <FormDescription className="text-xs">Separate tags with commas.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit">Switch</Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SwitchTaskDialog;
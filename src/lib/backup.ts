@@ -0,0 +1,104 @@
+import { z } from "zod";
+import { TrackerSettings, upsertTargetVersion } from "@/lib/settings";
+import { getProjects } from "@/lib/projects";
+import { getRates } from "@/lib/rates";
+import { getAdjustments } from "@/lib/overtime";
+import { getLeave } from "@/lib/leave";
+import {
+  DatabaseDump,
+  currentWeekRecordSchema,
+  dumpDatabase,
+  loadSettings,
+  restoreDatabase,
+  saveSettings,
+  sessionRecordSchema,
+  settingsSchema,
+  weekRecordSchema,
+} from "@/lib/storage";
+
+export const BACKUP_FORMAT = "work-tracker-backup";
+export const BACKUP_VERSION = 1;
+
+export type RestoreMode = "replace" | "merge";
+
+const backupSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  version: z.literal(BACKUP_VERSION),
+  exportedAt: z.string().datetime(),
+  settings: settingsSchema,
+  currentWeek: currentWeekRecordSchema.nullable(),
+  weeks: z.array(weekRecordSchema),
+  sessions: z.array(sessionRecordSchema),
+});
+
+export interface Backup extends DatabaseDump {
+  format: typeof BACKUP_FORMAT;
+  version: typeof BACKUP_VERSION;
+  exportedAt: string;
+  settings: TrackerSettings;
+}
+
+export const createBackup = async (): Promise<Backup> => ({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  exportedAt: new Date().toISOString(),
+  settings: loadSettings(),
+  ...(await dumpDatabase()),
+});
+
+// Throws with a message fit for the user when the file is not a backup this
+// version of the app can restore.
+export const parseBackup = (text: string): Backup => {
+  let raw: { format?: unknown; version?: unknown };
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("This file is not valid JSON.");
+  }
+  if (raw?.format !== BACKUP_FORMAT) {
+    throw new Error("This file is not a backup from this tracker.");
+  }
+  if (typeof raw.version === "number" && raw.version > BACKUP_VERSION) {
+    throw new Error("This backup was made by a newer version of the tracker.");
+  }
+
+  const result = backupSchema.safeParse(raw);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`This backup is damaged: ${issue.path.join(".")} ${issue.message.toLowerCase()}.`);
+  }
+  return result.data as Backup;
+};
+
+// Merging keeps current settings and only adds target versions the backup
+// has for dates that have none yet, and projects that are not there yet.
+const mergeSettings = (current: TrackerSettings, restored: TrackerSettings) => {
+  const merged = restored.targets
+    .filter(version => !current.targets.some(t => t.effectiveFrom === version.effectiveFrom))
+    .reduce(upsertTargetVersion, current);
+  const projects = getProjects(current);
+  const added = getProjects(restored).filter(project => !projects.some(p => p.id === project.id));
+  const rates = getRates(current);
+  const addedRates = getRates(restored).filter(rate => !rates.some(r => r.id === rate.id));
+  const adjustments = getAdjustments(current);
+  const addedAdjustments = getAdjustments(restored).filter(
+    adjustment => !adjustments.some(a => a.id === adjustment.id),
+  );
+  const leave = getLeave(current);
+  const addedLeave = getLeave(restored).filter(day => !leave.some(d => d.date === day.date));
+  return {
+    ...merged,
+    projects: [...projects, ...added],
+    rates: [...rates, ...addedRates].sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom)),
+    overtimeAdjustments: [...adjustments, ...addedAdjustments].sort((a, b) => a.date.localeCompare(b.date)),
+    leave: [...leave, ...addedLeave].sort((a, b) => a.date.localeCompare(b.date)),
+  };
+};
+
+// Resolves to the number of sessions a merge skipped for overlapping
+export const restoreBackup = async (backup: Backup, mode: RestoreMode) => {
+  const settings = mode === "replace" ? backup.settings : mergeSettings(loadSettings(), backup.settings);
+  const skipped = await restoreDatabase(backup, mode, settings);
+  saveSettings(settings);
+  return skipped;
+};
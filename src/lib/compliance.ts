@@ -0,0 +1,219 @@
+import { startOfDay } from "date-fns";
+import { z } from "zod";
+import type { BreakInterval, DailyEntry, WorkSession } from "@/types/tracker";
+import { formatDuration, formatTime } from "@/lib/tracker";
+import { getEntryDate, getSessionSeconds } from "@/lib/sessions";
+import type { TrackerSettings } from "@/lib/settings";
+
+export interface BreakRule {
+  afterMinutes: number; // working longer than this...
+  breakMinutes: number; // ...requires at least this much break in total
+}
+
+export interface ComplianceRules {
+  breaks: BreakRule[];
+  maxDailyMinutes?: number;
+  minRestMinutes?: number; // between the end of one working day and the next
+}
+
+export interface ComplianceSettings {
+  country: string; // a key of COMPLIANCE_PRESETS, or "custom"
+  rules: ComplianceRules;
+}
+
+export const CUSTOM_RULES = "custom";
+
+// Statutory defaults; collective agreements often differ, hence custom rules
+export const COMPLIANCE_PRESETS: Record<string, { name: string; rules: ComplianceRules }> = {
+  off: { name: "No checks", rules: { breaks: [] } },
+  DE: {
+    name: "Germany",
+    rules: {
+      breaks: [
+        { afterMinutes: 6 * 60, breakMinutes: 30 },
+        { afterMinutes: 9 * 60, breakMinutes: 45 },
+      ],
+      maxDailyMinutes: 10 * 60,
+      minRestMinutes: 11 * 60,
+    },
+  },
+  AT: {
+    name: "Austria",
+    rules: { breaks: [{ afterMinutes: 6 * 60, breakMinutes: 30 }], maxDailyMinutes: 10 * 60, minRestMinutes: 11 * 60 },
+  },
+  FR: {
+    name: "France",
+    rules: { breaks: [{ afterMinutes: 6 * 60, breakMinutes: 20 }], maxDailyMinutes: 10 * 60, minRestMinutes: 11 * 60 },
+  },
+  NL: {
+    name: "Netherlands",
+    rules: {
+      breaks: [
+        { afterMinutes: 5.5 * 60, breakMinutes: 30 },
+        { afterMinutes: 10 * 60, breakMinutes: 45 },
+      ],
+      maxDailyMinutes: 12 * 60,
+      minRestMinutes: 11 * 60,
+    },
+  },
+  GB: {
+    name: "United Kingdom",
+    rules: { breaks: [{ afterMinutes: 6 * 60, breakMinutes: 20 }], minRestMinutes: 11 * 60 },
+  },
+};
+
+export const DEFAULT_COMPLIANCE: ComplianceSettings = { country: "off", rules: COMPLIANCE_PRESETS.off.rules };
+
+// Shorter pauses do not count as a break under most of these laws
+export const MIN_COUNTED_BREAK_MINUTES = 15;
+
+export const getComplianceSettings = (settings: TrackerSettings) => settings.compliance ?? DEFAULT_COMPLIANCE;
+
+export const getComplianceName = (compliance: ComplianceSettings) =>
+  COMPLIANCE_PRESETS[compliance.country]?.name ?? "Custom rules";
+
+export const hasComplianceRules = ({ rules }: ComplianceSettings) =>
+  rules.breaks.length > 0 || rules.maxDailyMinutes !== undefined || rules.minRestMinutes !== undefined;
+
+export type ComplianceRule = "break" | "maxDaily" | "rest";
+
+export interface ComplianceViolation {
+  rule: ComplianceRule;
+  message: string;
+}
+
+const minutesBetween = (from: string, to: string) =>
+  Math.floor((new Date(to).getTime() - new Date(from).getTime()) / 60000);
+
+const isMidnight = (time: string) => {
+  const date = new Date(time);
+  return date.getTime() === startOfDay(date).getTime();
+};
+
+// Sessions are filed in pieces split at midnight; joins the pieces back up so
+// a shift from 22:00 to 02:00 is checked as the one session it was.
+const joinSplitSessions = (entries: DailyEntry[]) =>
+  entries
+    .flatMap(entry => entry.sessions)
+    .sort((a, b) => a.startTime.localeCompare(b.startTime))
+    .reduce<WorkSession[]>((joined, session) => {
+      const last = joined[joined.length - 1];
+      if (!last || last.endTime !== session.startTime || !isMidnight(session.startTime)) {
+        return [...joined, session];
+      }
+      const breaks = [...(last.breaks ?? []), ...(session.breaks ?? [])].reduce<BreakInterval[]>((all, b) => {
+        const previous = all[all.length - 1];
+        return previous?.endTime === b.startTime
+          ? [...all.slice(0, -1), { ...previous, endTime: b.endTime }]
+          : [...all, b];
+      }, []);
+      return [...joined.slice(0, -1), { ...last, endTime: session.endTime, breaks: breaks.length > 0 ? breaks : undefined }];
+    }, []);
+
+// Recorded breaks plus the gaps between sessions of one working day, counting
+// only pauses long enough to be a break.
+export const getCountedBreakMinutes = (sessions: WorkSession[]) => {
+  const pauses = [
+    ...sessions.flatMap(session => (session.breaks ?? []).map(b => minutesBetween(b.startTime, b.endTime))),
+    ...sessions.slice(1).map((session, index) => minutesBetween(sessions[index].endTime, session.startTime)),
+  ];
+  return pauses.filter(minutes => minutes >= MIN_COUNTED_BREAK_MINUTES).reduce((sum, minutes) => sum + minutes, 0);
+};
+
+// Checks one day against the rules. `workday` holds the whole sessions that
+// started that day, including any part worked after midnight; `previousEnd`
+// is when the working day before it really ended, for the rest period.
+export const checkDay = (workday: WorkSession[], previousEnd: string | undefined, rules: ComplianceRules) => {
+  const violations: ComplianceViolation[] = [];
+  const workedSeconds = workday.reduce((sum, session) => sum + getSessionSeconds(session), 0);
+  const worked = workedSeconds / 60;
+
+  const required = rules.breaks
+    .filter(rule => worked > rule.afterMinutes)
+    .reduce((max, rule) => Math.max(max, rule.breakMinutes), 0);
+  const taken = getCountedBreakMinutes(workday);
+  if (taken < required) {
+    violations.push({
+      rule: "break",
+      message: `${formatTime(required)} break required after ${formatDuration(workedSeconds)} of work, ${formatTime(taken)} taken`,
+    });
+  }
+
+  if (rules.maxDailyMinutes !== undefined && worked > rules.maxDailyMinutes) {
+    violations.push({
+      rule: "maxDaily",
+      message: `Worked ${formatDuration(workedSeconds)}, over the ${formatTime(rules.maxDailyMinutes)} daily maximum`,
+    });
+  }
+
+  if (rules.minRestMinutes !== undefined && previousEnd && workday.length > 0) {
+    const rest = minutesBetween(previousEnd, workday[0].startTime);
+    if (rest < rules.minRestMinutes) {
+      violations.push({
+        rule: "rest",
+        message: `Only ${formatTime(rest)} rest since the previous working day, ${formatTime(rules.minRestMinutes)} required`,
+      });
+    }
+  }
+
+  return violations;
+};
+
+// Violations per day (keyed by DailyEntry.date) for days in order. A day
+// whose only work is the end of a shift started the day before has its
+// breaks, hours and rest checked as part of that day.
+export const checkCompliance = (entries: DailyEntry[], rules: ComplianceRules) => {
+  const sessions = joinSplitSessions(entries);
+  return new Map(
+    entries.map(entry => {
+      const workday = sessions.filter(session => getEntryDate(new Date(session.startTime)) === entry.date);
+      const previous = workday.length > 0 && sessions.filter(session => session.startTime < workday[0].startTime).pop();
+      return [entry.date, checkDay(workday, previous ? previous.endTime : undefined, rules)];
+    }),
+  );
+};
+
+// Hours and minutes as typed in the form; 0 turns a rule off
+export const complianceFormSchema = z.object({
+  country: z.string(),
+  breakAfterHours: z.coerce.number({ invalid_type_error: "Enter a number of hours" }).min(0).max(24),
+  breakMinutes: z.coerce.number({ invalid_type_error: "Enter a number of minutes" }).int().min(0).max(240),
+  longBreakAfterHours: z.coerce.number({ invalid_type_error: "Enter a number of hours" }).min(0).max(24),
+  longBreakMinutes: z.coerce.number({ invalid_type_error: "Enter a number of minutes" }).int().min(0).max(240),
+  maxDailyHours: z.coerce.number({ invalid_type_error: "Enter a number of hours" }).min(0).max(24),
+  minRestHours: z.coerce.number({ invalid_type_error: "Enter a number of hours" }).min(0).max(24),
+});
+
+export type ComplianceFormValues = z.infer<typeof complianceFormSchema>;
+
+export const toComplianceFormValues = ({ country, rules }: ComplianceSettings): ComplianceFormValues => {
+  const [first, second] = rules.breaks;
+  return {
+    country,
+    breakAfterHours: (first?.afterMinutes ?? 0) / 60,
+    breakMinutes: first?.breakMinutes ?? 0,
+    longBreakAfterHours: (second?.afterMinutes ?? 0) / 60,
+    longBreakMinutes: second?.breakMinutes ?? 0,
+    maxDailyHours: (rules.maxDailyMinutes ?? 0) / 60,
+    minRestHours: (rules.minRestMinutes ?? 0) / 60,
+  };
+};
+
+export const fromComplianceFormValues = (values: ComplianceFormValues): ComplianceSettings => {
+  const toMinutes = (hours: number) => (hours > 0 ? Math.round(hours * 60) : undefined);
+  const breaks = [
+    { afterMinutes: toMinutes(values.breakAfterHours), breakMinutes: values.breakMinutes },
+    { afterMinutes: toMinutes(values.longBreakAfterHours), breakMinutes: values.longBreakMinutes },
+  ].filter((rule): rule is BreakRule => rule.afterMinutes !== undefined && rule.breakMinutes > 0);
+
+  const rules: ComplianceRules = {
+    breaks,
+    maxDailyMinutes: toMinutes(values.maxDailyHours),
+    minRestMinutes: toMinutes(values.minRestHours),
+  };
+  // A preset whose values were edited is saved as custom rules
+  const preset = COMPLIANCE_PRESETS[values.country];
+  const presetValues = preset && toComplianceFormValues({ country: values.country, rules: preset.rules });
+  const isPreset = presetValues && JSON.stringify(presetValues) === JSON.stringify(values);
+  return { country: isPreset ? values.country : CUSTOM_RULES, rules };
+};
@@ -0,0 +1,75 @@
+import type { WeekData, WorkSession } from "@/types/tracker";
+
+export const DB_NAME = "workTracker";
+export const DB_VERSION = 2;
+
+// A session as kept in IndexedDB, with the keys it is indexed by
+export interface SessionRecord extends WorkSession {
+  day: string; // yyyy-MM-dd the portion was worked on
+  weekStart: string; // lastResetDate of the tracked week it belongs to
+}
+
+// Archived week metadata; its sessions are looked up through the week index
+export interface WeekRecord {
+  weekStart: string;
+  weekEnd: string;
+  weeklyTargetMinutes: number;
+  dailyMinimumMinutes: number;
+  imported?: boolean; // only made to hold imported sessions, never tracked live
+}
+
+export type CurrentWeekRecord = Pick<WeekData, "lastResetDate" | "activeSession">;
+
+export const SESSIONS_STORE = "sessions";
+export const WEEKS_STORE = "weeks";
+export const META_STORE = "meta";
+export const CURRENT_WEEK_KEY = "currentWeek";
+
+let dbPromise: Promise<IDBDatabase> | undefined;
+
+export const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+export const openDatabase = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = event => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          const sessions = db.createObjectStore(SESSIONS_STORE, { keyPath: "id" });
+          sessions.createIndex("day", "day");
+          sessions.createIndex("weekStart", "weekStart");
+          db.createObjectStore(WEEKS_STORE, { keyPath: "weekStart" });
+          db.createObjectStore(META_STORE);
+        }
+        // v2 derives durations from the timestamps instead of storing whole
+        // minutes alongside them
+        if (event.oldVersion < 2) {
+          const cursorRequest = request.transaction.objectStore(SESSIONS_STORE).openCursor();
+          cursorRequest.onsuccess = () => {
+            const cursor = cursorRequest.result;
+            if (!cursor) return;
+            const { duration, ...record } = cursor.value;
+            if (duration !== undefined) cursor.update(record);
+            cursor.continue();
+          };
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
@@ -0,0 +1,103 @@
+import { format } from "date-fns";
+import { z } from "zod";
+import type { DailyEntry, Project, WorkSession } from "@/types/tracker";
+import { findProject } from "@/lib/projects";
+import { formatTags } from "@/lib/notes";
+import { getBreakSeconds, getSessionSeconds } from "@/lib/sessions";
+import { RoundingSettings, getBillableDaySeconds, getBillableSessionSeconds, isRoundingEnabled } from "@/lib/rounding";
+
+export const exportFormSchema = z
+  .object({
+    from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Pick the first day to export"),
+    to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Pick the last day to export"),
+    format: z.enum(["csv", "ics"]),
+    includeDailyTotals: z.boolean(),
+  })
+  .refine(values => values.from <= values.to, {
+    message: "The last day cannot be before the first day",
+    path: ["to"],
+  });
+
+export type ExportFormValues = z.infer<typeof exportFormSchema>;
+
+// Quotes a field when it contains anything a spreadsheet would split on
+const escapeCsvField = (value: string | number) => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: (string | number)[][]) =>
+  rows.map(row => row.map(escapeCsvField).join(",")).join("\r\n") + "\r\n";
+
+// Durations are exported rounded to the nearest whole minute and hundredth of an hour
+const toMinutes = (seconds: number) => Math.round(seconds / 60);
+
+const toHours = (seconds: number) => (seconds / 3600).toFixed(2);
+
+const BILLABLE_COLUMNS = ["Billable (minutes)", "Billable (hours)"];
+
+const billableFields = (seconds: number) => [toMinutes(seconds), toHours(seconds)];
+
+// Billable columns follow the exact ones when rounding is on, and only on the
+// rows the rounding applies to.
+export const sessionsToCsv = (sessions: WorkSession[], projects: Project[], rounding: RoundingSettings) => {
+  const billable = isRoundingEnabled(rounding) && rounding.scope === "session";
+  return toCsv([
+    [
+      "Date",
+      "Start",
+      "End",
+      "Project",
+      "Client",
+      "Note",
+      "Tags",
+      "Breaks (minutes)",
+      "Duration (minutes)",
+      "Duration (hours)",
+      ...(billable ? BILLABLE_COLUMNS : []),
+    ],
+    ...sessions.map(session => {
+      const start = new Date(session.startTime);
+      const project = findProject(projects, session.projectId);
+      return [
+        format(start, "yyyy-MM-dd"),
+        format(start, "HH:mm"),
+        format(new Date(session.endTime), "HH:mm"),
+        project?.name ?? "",
+        project?.client ?? "",
+        session.note ?? "",
+        formatTags(session.tags),
+        toMinutes(getBreakSeconds([session])),
+        toMinutes(getSessionSeconds(session)),
+        toHours(getSessionSeconds(session)),
+        ...(billable ? billableFields(getBillableSessionSeconds(session, rounding)) : []),
+      ];
+    }),
+  ]);
+};
+
+export const dailyTotalsToCsv = (entries: DailyEntry[], rounding: RoundingSettings) => {
+  const billable = isRoundingEnabled(rounding);
+  return toCsv([
+    ["Date", "Sessions", "Breaks (minutes)", "Total (minutes)", "Total (hours)", ...(billable ? BILLABLE_COLUMNS : [])],
+    ...entries.map(entry => [
+      format(new Date(entry.sessions[0].startTime), "yyyy-MM-dd"),
+      entry.sessions.length,
+      toMinutes(getBreakSeconds(entry.sessions)),
+      toMinutes(entry.totalSeconds),
+      toHours(entry.totalSeconds),
+      ...(billable ? billableFields(getBillableDaySeconds(entry, rounding)) : []),
+    ]),
+  ]);
+};
+
+// The object URL is released a moment later; some browsers start the
+// download only after the click handler has returned.
+export const downloadFile = (filename: string, content: BlobPart, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,304 @@
+import type { Project, WorkSession } from "@/types/tracker";
+import { formatDuration } from "@/lib/tracker";
+import { findProject, getProjectLabel } from "@/lib/projects";
+import { getBreakSeconds, getSessionSeconds } from "@/lib/sessions";
+
+const PRODID = "-//Weekly Tracker//Work Sessions//EN";
+
+// 20261019T083000Z, the UTC form every calendar understands
+const toIcsDate = (iso: string) => iso.replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+const escapeText = (text: string) =>
+  text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+// Lines longer than 75 octets are continued on the next line after a space
+const foldLine = (line: string) => {
+  const bytes = new TextEncoder().encode(line);
+  if (bytes.length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  let size = 0;
+  for (const char of line) {
+    const charSize = new TextEncoder().encode(char).length;
+    if (size + charSize > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = "";
+      size = 0;
+    }
+    current += char;
+    size += charSize;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+};
+
+const describeSession = (session: WorkSession) =>
+  [
+    session.note,
+    session.tags?.map(tag => `#${tag}`).join(" "),
+    `Tracked ${formatDuration(getSessionSeconds(session))}`,
+    session.breaks?.length && `Breaks ${formatDuration(getBreakSeconds([session]))}`,
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+const sessionToEvent = (session: WorkSession, project: Project | undefined, stamp: string) => [
+  "BEGIN:VEVENT",
+  `UID:${session.id}@weekly-tracker`,
+  `DTSTAMP:${stamp}`,
+  `DTSTART:${toIcsDate(session.startTime)}`,
+  `DTEND:${toIcsDate(session.endTime)}`,
+  `SUMMARY:${escapeText(project ? getProjectLabel(project) : "Work session")}`,
+  `DESCRIPTION:${escapeText(describeSession(session))}`,
+  "END:VEVENT",
+];
+
+export const sessionsToIcs = (sessions: WorkSession[], projects: Project[]) => {
+  const stamp = toIcsDate(new Date().toISOString());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    ...sessions.flatMap(session => sessionToEvent(session, findProject(projects, session.projectId), stamp)),
+    "END:VCALENDAR",
+  ];
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+};
+
+export interface CalendarEvent {
+  summary: string;
+  start: Date;
+  end: Date;
+  unknownTimeZone?: string; // a TZID this browser cannot convert, so the times were read as local
+}
+
+interface IcsProperty {
+  params: Record<string, string>;
+  value: string;
+}
+
+interface IcsTime {
+  wall: Date; // the written date and time, read back with the UTC getters
+  zone?: string; // "UTC", a time zone the browser knows, or none for local time
+  unknownZone?: string;
+}
+
+const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+const unescapeText = (text: string) => text.replace(/\\n/gi, "\n").replace(/\\([\\;,])/g, "$1");
+
+// Joins folded lines back together and splits each into name, params, value
+const parseLines = (text: string) =>
+  text
+    .replace(/\r?\n[ \t]/g, "")
+    .split(/\r?\n/)
+    .map(line => {
+      const colon = line.indexOf(":");
+      const [name, ...params] = line.slice(0, colon).split(";");
+      return {
+        name: name.toUpperCase(),
+        params: Object.fromEntries(params.map(p => p.split("=") as [string, string])),
+        value: line.slice(colon + 1),
+      };
+    });
+
+const zoneFormats = new Map<string, Intl.DateTimeFormat>();
+
+// Throws a RangeError for time zones the browser does not know, such as the
+// Windows names some Outlook exports use
+const getZoneFormat = (timeZone: string) => {
+  if (!zoneFormats.has(timeZone)) {
+    zoneFormats.set(
+      timeZone,
+      new Intl.DateTimeFormat("en-US", {
+        timeZone,
+        hourCycle: "h23",
+        year: "numeric",
+        month: "numeric",
+        day: "numeric",
+        hour: "numeric",
+        minute: "numeric",
+        second: "numeric",
+      }),
+    );
+  }
+  return zoneFormats.get(timeZone);
+};
+
+const isKnownZone = (timeZone: string) => {
+  try {
+    getZoneFormat(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// How far a time zone's clocks are ahead of UTC at an instant, in milliseconds
+const getZoneOffset = (timeZone: string, instant: number) => {
+  const parts = Object.fromEntries(
+    getZoneFormat(timeZone)
+      .formatToParts(instant)
+      .map(part => [part.type, Number(part.value)]),
+  );
+  const wall = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return wall - Math.floor(instant / 1000) * 1000;
+};
+
+// The instant a written time stands for. The offset is looked up twice so
+// times near a daylight saving change land on the right side of it.
+const toInstant = (wall: Date, zone: string | undefined) => {
+  if (zone === "UTC") return new Date(wall);
+  if (!zone) {
+    return new Date(
+      wall.getUTCFullYear(),
+      wall.getUTCMonth(),
+      wall.getUTCDate(),
+      wall.getUTCHours(),
+      wall.getUTCMinutes(),
+      wall.getUTCSeconds(),
+    );
+  }
+  const guess = wall.getTime() - getZoneOffset(zone, wall.getTime());
+  return new Date(wall.getTime() - getZoneOffset(zone, guess));
+};
+
+// Times with a TZID are converted from that zone; a zone the browser does not
+// know is read as local time and reported so the preview can say so.
+const parseIcsTime = ({ params, value }: IcsProperty): IcsTime | undefined => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return undefined;
+  const [, year, month, day, hours = "00", minutes = "00", seconds = "00", utc] = match;
+  const wall = new Date(
+    Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds)),
+  );
+  if (utc) return { wall, zone: "UTC" };
+
+  const tzid = params.TZID?.replace(/^"(.*)"$/, "$1");
+  if (!tzid) return { wall };
+  return isKnownZone(tzid) ? { wall, zone: tzid } : { wall, unknownZone: tzid };
+};
+
+const parseIcsDate = (property: IcsProperty) => {
+  const time = parseIcsTime(property);
+  return time && toInstant(time.wall, time.zone);
+};
+
+// PT1H30M, P1D and the like
+const parseDuration = (value: string) => {
+  const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return undefined;
+  const [weeks, days, hours, minutes, seconds] = match.slice(2).map(part => Number(part ?? 0));
+  const ms = ((((weeks * 7 + days) * 24 + hours) * 60 + minutes) * 60 + seconds) * 1000;
+  return match[1] === "-" ? -ms : ms;
+};
+
+// Expands the simple daily and weekly rules meetings use; anything else
+// only yields its first occurrence. Days are stepped on the written time so
+// a meeting keeps its hour in its own zone across daylight saving changes.
+const expandOccurrences = (start: IcsTime, rule: string | undefined, exdates: number[], until: Date) => {
+  const first = toInstant(start.wall, start.zone);
+  if (!rule) return [first];
+
+  const options = Object.fromEntries(rule.split(";").map(part => part.split("=")));
+  const interval = Number(options.INTERVAL ?? 1);
+  const count = options.COUNT ? Number(options.COUNT) : Infinity;
+  const untilTime = options.UNTIL ? parseIcsTime({ params: {}, value: options.UNTIL }) : undefined;
+  const ruleUntil = untilTime && toInstant(untilTime.wall, untilTime.zone ?? start.zone);
+  const last = ruleUntil && ruleUntil < until ? ruleUntil : until;
+  const byDay: number[] = options.BYDAY
+    ? options.BYDAY.split(",").map((code: string) => WEEKDAY_CODES.indexOf(code.slice(-2)))
+    : [start.wall.getUTCDay()];
+
+  if (options.FREQ !== "DAILY" && options.FREQ !== "WEEKLY") return [first];
+
+  const occurrences: Date[] = [];
+  let generated = 0;
+  for (let day = new Date(start.wall); generated < count; day.setUTCDate(day.getUTCDate() + 1)) {
+    const occurrence = toInstant(day, start.zone);
+    if (occurrence > last) break;
+
+    const daysSinceStart = Math.round((day.getTime() - start.wall.getTime()) / 86400000);
+    const matches =
+      options.FREQ === "DAILY"
+        ? daysSinceStart % interval === 0
+        : byDay.includes(day.getUTCDay()) && Math.floor(daysSinceStart / 7) % interval === 0;
+    if (!matches) continue;
+
+    generated++;
+    if (!exdates.includes(occurrence.getTime())) occurrences.push(occurrence);
+  }
+  return occurrences;
+};
+
+type IcsComponent = Record<string, IcsProperty[]>;
+
+// Identifies one occurrence of a series, so a moved or cancelled copy of it
+// can take its place
+const occurrenceKey = (uid: string | undefined, start: Date) => `${uid} ${start.getTime()}`;
+
+// Reads the timed events of an .ics file that fall between two dates,
+// expanding recurring meetings into their individual occurrences. Moved or
+// cancelled occurrences, written as extra events with a RECURRENCE-ID, replace
+// the occurrence they name. All-day events are left out as they say nothing
+// about time worked.
+export const parseIcsEvents = (text: string, from: Date, to: Date): CalendarEvent[] => {
+  const components: IcsComponent[] = [];
+  let properties: IcsComponent | undefined;
+
+  parseLines(text).forEach(({ name, params, value }) => {
+    if (name === "BEGIN" && value.toUpperCase() === "VEVENT") {
+      properties = {};
+    } else if (name === "END" && value.toUpperCase() === "VEVENT" && properties) {
+      components.push(properties);
+      properties = undefined;
+    } else if (properties) {
+      const key = name.replace("-", "_");
+      (properties[key] ??= []).push({ params, value });
+    }
+  });
+
+  const replaced = new Set(
+    components
+      .filter(component => component.RECURRENCE_ID)
+      .map(component => {
+        const recurrenceId = parseIcsDate(component.RECURRENCE_ID[0]);
+        return recurrenceId && occurrenceKey(component.UID?.[0].value, recurrenceId);
+      }),
+  );
+
+  const events: CalendarEvent[] = [];
+  components.forEach(component => {
+    const first = (key: string) => component[key]?.[0];
+    const dtStart = first("DTSTART");
+    const start = dtStart && dtStart.params.VALUE !== "DATE" ? parseIcsTime(dtStart) : undefined;
+    if (!start || first("STATUS")?.value.toUpperCase() === "CANCELLED") return;
+
+    const startInstant = toInstant(start.wall, start.zone);
+    const end = first("DTEND") ? parseIcsTime(first("DTEND")) : undefined;
+    const duration = end
+      ? toInstant(end.wall, end.zone).getTime() - startInstant.getTime()
+      : parseDuration(first("DURATION")?.value ?? "");
+    if (!duration || duration <= 0) return;
+
+    const uid = first("UID")?.value;
+    const exdates = (component.EXDATE ?? []).flatMap(ex =>
+      ex.value.split(",").map(v => parseIcsDate({ params: ex.params, value: v })?.getTime()),
+    );
+    const summary = unescapeText(first("SUMMARY")?.value ?? "Untitled event");
+    const unknownTimeZone = start.unknownZone ?? end?.unknownZone;
+    const rule = component.RECURRENCE_ID ? undefined : first("RRULE")?.value;
+
+    expandOccurrences(start, rule, exdates, to)
+      .filter(occurrence => component.RECURRENCE_ID || !replaced.has(occurrenceKey(uid, occurrence)))
+      .filter(occurrence => occurrence.getTime() + duration > from.getTime() && occurrence <= to)
+      .forEach(occurrence =>
+        events.push({ summary, start: occurrence, end: new Date(occurrence.getTime() + duration), unknownTimeZone }),
+      );
+  });
+
+  return events.sort((a, b) => a.start.getTime() - b.start.getTime());
+};
@@ -0,0 +1,262 @@
+import { addDays, isValid, parse } from "date-fns";
+import { z } from "zod";
+import type { BreakInterval, WeekData, WorkSession } from "@/types/tracker";
+import { createSession, overlapsWith } from "@/lib/sessions";
+import { sessionRecordSchema } from "@/lib/storage";
+import type { CalendarEvent } from "@/lib/ical";
+
+export const DATE_FORMATS = ["yyyy-MM-dd", "MM/dd/yyyy", "dd/MM/yyyy", "dd.MM.yyyy"];
+const TIME_FORMATS = ["HH:mm", "HH:mm:ss", "h:mm a", "h:mm:ss a"];
+
+export type ConflictResolution = "skip" | "merge" | "replace";
+
+export interface ColumnMapping {
+  date?: number; // omitted when the start and end columns hold full date-times
+  start: number;
+  end: number;
+  dateFormat: string;
+}
+
+export interface ImportCandidate {
+  row: number; // 1-based line in the file, or position in a JSON list or calendar
+  label?: string; // the event title for calendar imports
+  warning?: string;
+  session?: WorkSession;
+  error?: string;
+  overlaps: WorkSession[];
+}
+
+// Splits CSV text into rows of fields, honouring quoted fields that contain
+// commas, escaped quotes or line breaks.
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(value => value.trim() !== ""));
+};
+
+// Picks the columns whose headers look like a date, start and end
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const find = (pattern: RegExp) => {
+    const index = headers.findIndex(header => pattern.test(header.trim()));
+    return index >= 0 ? index : undefined;
+  };
+  return {
+    date: find(/^(date|day)$/i),
+    start: find(/start|from|begin|in$/i) ?? 0,
+    end: find(/end|to$|until|finish|out$/i) ?? 1,
+    dateFormat: DATE_FORMATS[0],
+  };
+};
+
+const parseTime = (value: string, day: Date) =>
+  TIME_FORMATS.map(timeFormat => parse(value.trim(), timeFormat, day)).find(isValid);
+
+const parseDateTime = (value: string) => {
+  const date = new Date(value.trim());
+  return isValid(date) ? date : undefined;
+};
+
+export const rowsToCandidates = (rows: string[][], mapping: ColumnMapping): ImportCandidate[] =>
+  rows.map((row, index) => {
+    const candidate: ImportCandidate = { row: index + 2, overlaps: [] };
+    let start: Date | undefined;
+    let end: Date | undefined;
+
+    if (mapping.date !== undefined) {
+      const day = parse((row[mapping.date] ?? "").trim(), mapping.dateFormat, new Date());
+      if (!isValid(day)) return { ...candidate, error: `Date "${row[mapping.date] ?? ""}" is not ${mapping.dateFormat}` };
+      start = parseTime(row[mapping.start] ?? "", day);
+      end = parseTime(row[mapping.end] ?? "", day);
+    } else {
+      start = parseDateTime(row[mapping.start] ?? "");
+      end = parseDateTime(row[mapping.end] ?? "");
+    }
+
+    if (!start) return { ...candidate, error: `Start "${row[mapping.start] ?? ""}" is not a time` };
+    if (!end) return { ...candidate, error: `End "${row[mapping.end] ?? ""}" is not a time` };
+    // An end time earlier than the start time means the session ran past midnight
+    if (mapping.date !== undefined && end <= start) end = addDays(end, 1);
+    if (end <= start) return { ...candidate, error: "Ends before it starts" };
+
+    return { ...candidate, session: createSession(start, end) };
+  });
+
+// Sessions as the app keeps them; a plain list need not say where they were
+// filed, which is worked out again on import anyway
+const jsonSessionSchema = sessionRecordSchema.partial({ id: true, day: true, weekStart: true });
+
+// Accepts a plain list of sessions or the app's own backup file, which keeps
+// its sessions under a `sessions` key.
+const jsonImportSchema = z.union([
+  z.array(jsonSessionSchema),
+  z.object({ sessions: z.array(jsonSessionSchema) }).passthrough(),
+]);
+
+export const parseJsonSessions = (text: string): ImportCandidate[] => {
+  const parsed = jsonImportSchema.parse(JSON.parse(text));
+  const sessions = Array.isArray(parsed) ? parsed : parsed.sessions;
+
+  return sessions.map((session, index) => {
+    const start = new Date(session.startTime);
+    const end = new Date(session.endTime);
+    const { projectId, note, tags } = session;
+    const breaks = session.breaks as BreakInterval[];
+    return end > start
+      ? { row: index + 1, session: { projectId, note, tags, ...createSession(start, end, breaks) }, overlaps: [] }
+      : { row: index + 1, error: "Ends before it starts", overlaps: [] };
+  });
+};
+
+export const eventsToCandidates = (events: CalendarEvent[]): ImportCandidate[] =>
+  events.map((event, index) => ({
+    row: index + 1,
+    label: event.summary,
+    warning: event.unknownTimeZone && `Time zone ${event.unknownTimeZone} is unknown, read as local time`,
+    session: createSession(event.start, event.end),
+    overlaps: [],
+  }));
+
+// Flags candidates that share time with already logged sessions, the running
+// session or an earlier row of the same file, or that have not ended yet.
+// Only overlaps with logged sessions can be merged or replaced, and only when
+// `resolvable`; the rest are always skipped.
+export const findConflicts = (
+  candidates: ImportCandidate[],
+  existing: WorkSession[],
+  activeSession?: WeekData["activeSession"],
+  resolvable = true,
+): ImportCandidate[] =>
+  candidates.map((candidate, index) => {
+    if (!candidate.session) return candidate;
+    const { session } = candidate;
+
+    if (session.endTime > new Date().toISOString()) {
+      return { ...candidate, error: "Ends in the future" };
+    }
+    if (activeSession && session.endTime > activeSession.startTime) {
+      return { ...candidate, error: "Overlaps the session that is running now" };
+    }
+    const duplicate = candidates.slice(0, index).find(c => c.session && overlapsWith(c.session, session));
+    if (duplicate) {
+      return { ...candidate, error: `Overlaps row ${duplicate.row} of this file` };
+    }
+    const overlaps = existing.filter(s => overlapsWith(s, session));
+    if (overlaps.length > 0 && !resolvable) {
+      return { ...candidate, error: "Overlaps tracked time" };
+    }
+    return { ...candidate, overlaps };
+  });
+
+// The parts of `start` to `end` none of the intervals cover
+const gapsBetween = (intervals: BreakInterval[], start: string, end: string) => {
+  const gaps: BreakInterval[] = [];
+  let cursor = start;
+  [...intervals]
+    .sort((a, b) => a.startTime.localeCompare(b.startTime))
+    .forEach(interval => {
+      if (interval.startTime > cursor) gaps.push({ startTime: cursor, endTime: interval.startTime });
+      if (interval.endTime > cursor) cursor = interval.endTime;
+    });
+  if (cursor < end) gaps.push({ startTime: cursor, endTime: end });
+  return gaps;
+};
+
+const getWorkedIntervals = (session: WorkSession) =>
+  gapsBetween(session.breaks ?? [], session.startTime, session.endTime);
+
+// Joins imported sessions with the logged ones they overlap into a single
+// session with the details of the earliest logged one. Time that none of them
+// was worked, such as a break in a logged session, stays a break.
+const joinSessions = (imported: WorkSession[], logged: WorkSession[]): WorkSession => {
+  const parts = [...imported, ...logged];
+  const start = parts.reduce((min, s) => (s.startTime < min ? s.startTime : min), parts[0].startTime);
+  const end = parts.reduce((max, s) => (s.endTime > max ? s.endTime : max), parts[0].endTime);
+  const breaks = gapsBetween(parts.flatMap(getWorkedIntervals), start, end);
+  const [first] = [...logged].sort((a, b) => a.startTime.localeCompare(b.startTime));
+  return {
+    projectId: first.projectId,
+    note: first.note,
+    tags: first.tags,
+    ...createSession(new Date(start), new Date(end), breaks),
+  };
+};
+
+interface MergeGroup {
+  imported: WorkSession[];
+  logged: Map<string, WorkSession>;
+}
+
+// Works out which sessions to write and which existing ones to delete. Rows
+// merged into the same logged session are joined together with it, so each
+// logged session is only merged once.
+export const resolveImport = (candidates: ImportCandidate[], resolutions: Record<number, ConflictResolution>) => {
+  const put: WorkSession[] = [];
+  const remove = new Set<string>();
+  let groups: MergeGroup[] = [];
+
+  candidates.forEach(candidate => {
+    if (!candidate.session || candidate.error) return;
+    if (candidate.overlaps.length === 0) {
+      put.push(candidate.session);
+      return;
+    }
+
+    const resolution = resolutions[candidate.row] ?? "skip";
+    if (resolution === "skip") return;
+
+    candidate.overlaps.forEach(s => remove.add(s.id));
+    if (resolution === "replace") {
+      put.push(candidate.session);
+      return;
+    }
+
+    const joined = groups.filter(group => candidate.overlaps.some(s => group.logged.has(s.id)));
+    groups = [
+      ...groups.filter(group => !joined.includes(group)),
+      {
+        imported: [candidate.session, ...joined.flatMap(group => group.imported)],
+        logged: new Map([
+          ...candidate.overlaps.map(s => [s.id, s] as const),
+          ...joined.flatMap(group => [...group.logged]),
+        ]),
+      },
+    ];
+  });
+
+  groups.forEach(group => put.push(joinSessions(group.imported, [...group.logged.values()])));
+  return { put, remove: [...remove] };
+};
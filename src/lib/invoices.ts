@@ -0,0 +1,235 @@
+import { addDays, format, parseISO } from "date-fns";
+import { z } from "zod";
+import type { Project, WorkSession } from "@/types/tracker";
+import type { TrackerSettings } from "@/lib/settings";
+import { findProject, getProjects } from "@/lib/projects";
+import { groupSessionsByDay } from "@/lib/sessions";
+import { allocateBillableSeconds, getRoundingSettings } from "@/lib/rounding";
+import { findRate, formatMoney, getCurrency, getRates } from "@/lib/rates";
+import { PAGE_WIDTH, PdfPage, canRender, createPdf, fitText } from "@/lib/pdf";
+
+// What is remembered between invoices
+export interface InvoiceSettings {
+  issuer: string; // your name and address, one line each
+  nextNumber: string;
+  taxPercent: number;
+  dueDays: number;
+}
+
+export const DEFAULT_INVOICE_SETTINGS: InvoiceSettings = {
+  issuer: "",
+  nextNumber: "INV-0001",
+  taxPercent: 0,
+  dueDays: 14,
+};
+
+export interface InvoiceLine {
+  project?: Project;
+  description: string;
+  hours: number; // billable, to two decimals
+  hourlyRate: number;
+  amount: number;
+}
+
+export interface Invoice {
+  number: string;
+  issuer: string;
+  billTo: string;
+  issueDate: string; // yyyy-MM-dd
+  dueDate: string;
+  from: string; // the period billed, yyyy-MM-dd
+  to: string;
+  currency: string;
+  lines: InvoiceLine[];
+  subtotal: number;
+  taxPercent: number;
+  tax: number;
+  total: number;
+  unratedSessions: number; // sessions for the client left off for want of a rate
+}
+
+export const getInvoiceSettings = (settings: TrackerSettings) => settings.invoicing ?? DEFAULT_INVOICE_SETTINGS;
+
+// The number after the one just used: its last run of digits counts up and
+// keeps its zero padding, so "INV-0009" becomes "INV-0010".
+export const getNextInvoiceNumber = (number: string) => {
+  const match = number.match(/^(.*?)(\d+)(\D*)$/);
+  if (!match) return `${number}-2`;
+  const [, prefix, digits, suffix] = match;
+  return `${prefix}${String(Number(digits) + 1).padStart(digits.length, "0")}${suffix}`;
+};
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+export const invoiceFormSchema = z
+  .object({
+    client: z.string().min(1, "Pick the client to bill"),
+    from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Pick the first day to bill"),
+    to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Pick the last day to bill"),
+    number: z.string().trim().min(1, "Give the invoice a number").max(30, "Keep the number under 30 characters"),
+    issueDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Pick the invoice date"),
+    dueDays: z.coerce.number({ invalid_type_error: "Enter a number of days" }).int().min(0).max(365),
+    taxPercent: z.coerce.number({ invalid_type_error: "Enter a percentage" }).min(0).max(100),
+    issuer: z.string().max(500, "Keep your details under 500 characters"),
+    billTo: z.string().max(500, "Keep the client details under 500 characters"),
+  })
+  .refine(values => values.from <= values.to, {
+    message: "The last day cannot be before the first day",
+    path: ["to"],
+  });
+
+export type InvoiceFormValues = z.infer<typeof invoiceFormSchema>;
+
+// Bills the client's sessions in the form's range on billable time, one line
+// per project and rate. Rates are billed as set, without the overtime
+// multipliers that only apply to your own weekly earnings.
+export const buildInvoice = (
+  values: InvoiceFormValues,
+  sessions: WorkSession[],
+  settings: TrackerSettings,
+): Invoice => {
+  const projects = getProjects(settings);
+  const rates = getRates(settings);
+  const rounding = getRoundingSettings(settings);
+  const clientSessions = sessions.filter(session => findProject(projects, session.projectId)?.client === values.client);
+
+  const lines = new Map<string, InvoiceLine>();
+  let unratedSessions = 0;
+  groupSessionsByDay(clientSessions).forEach(entry => {
+    const billable = allocateBillableSeconds(entry, rounding);
+    entry.sessions.forEach((session, index) => {
+      const rate = findRate(rates, projects, session);
+      if (!rate) {
+        unratedSessions++;
+        return;
+      }
+      const project = findProject(projects, session.projectId);
+      const key = `${project.id}:${rate.hourlyRate}`;
+      const line = lines.get(key) ?? { project, description: project.name, hours: 0, hourlyRate: rate.hourlyRate, amount: 0 };
+      lines.set(key, { ...line, hours: line.hours + billable[index] / 3600 });
+    });
+  });
+
+  const invoiceLines = [...lines.values()]
+    .map(line => {
+      const hours = roundCents(line.hours);
+      return { ...line, hours, amount: roundCents(hours * line.hourlyRate) };
+    })
+    .sort((a, b) => a.description.localeCompare(b.description) || a.hourlyRate - b.hourlyRate);
+  const subtotal = roundCents(invoiceLines.reduce((sum, line) => sum + line.amount, 0));
+  const tax = roundCents((subtotal * values.taxPercent) / 100);
+
+  return {
+    number: values.number,
+    issuer: values.issuer,
+    billTo: values.billTo || values.client,
+    issueDate: values.issueDate,
+    dueDate: format(addDays(parseISO(values.issueDate), values.dueDays), "yyyy-MM-dd"),
+    from: values.from,
+    to: values.to,
+    currency: getCurrency(settings),
+    lines: invoiceLines,
+    subtotal,
+    taxPercent: values.taxPercent,
+    tax,
+    total: roundCents(subtotal + tax),
+    unratedSessions,
+  };
+};
+
+export const formatInvoiceDate = (date: string) => format(parseISO(date), "MMM d, yyyy");
+
+const MARGIN = 50;
+const RIGHT = PAGE_WIDTH - MARGIN;
+const BOTTOM = 770; // lowest baseline for content, clear of the page footer
+const FOOTER_Y = 800;
+const ADDRESS_LINES = 12; // per address block, so it always leaves room for items
+const LINE_HEIGHT = 18;
+const TOTALS_HEIGHT = 50; // from the last item to the total
+
+// Lays the invoice out as a PDF: details on the first page, line items
+// continuing onto further pages whenever the next one would reach the bottom
+// margin, totals after the last item.
+export const invoiceToPdf = (invoice: Invoice) => {
+  // Currency symbols the PDF fonts cannot show, like "₹", give way to the code
+  const display = canRender(formatMoney(0, invoice.currency)) ? "symbol" : "code";
+  const money = (amount: number) => formatMoney(amount, invoice.currency, display);
+  const pages: PdfPage[] = [];
+  let page: PdfPage = { texts: [], lines: [] };
+  let y = 70;
+
+  const addTableHeader = () => {
+    page.texts.push({ x: MARGIN, y, text: "Description", size: 9, bold: true });
+    page.texts.push({ x: 360, y, text: "Hours", size: 9, bold: true, align: "right" });
+    page.texts.push({ x: 450, y, text: "Rate", size: 9, bold: true, align: "right" });
+    page.texts.push({ x: RIGHT, y, text: "Amount", size: 9, bold: true, align: "right" });
+    page.lines.push({ x1: MARGIN, y1: y + 6, x2: RIGHT, y2: y + 6 });
+    y += 22;
+  };
+
+  const startNextPage = () => {
+    pages.push(page);
+    page = { texts: [], lines: [] };
+    y = 70;
+    page.texts.push({ x: MARGIN, y, text: `${invoice.number} (continued)`, size: 10, bold: true });
+    y += 30;
+  };
+
+  page.texts.push({ x: MARGIN, y, text: "INVOICE", size: 24, bold: true });
+  page.texts.push({ x: RIGHT, y: y - 8, text: invoice.number, size: 12, bold: true, align: "right" });
+  page.texts.push({ x: RIGHT, y: y + 8, text: `Issued ${formatInvoiceDate(invoice.issueDate)}`, size: 9, align: "right" });
+  page.texts.push({ x: RIGHT, y: y + 20, text: `Due ${formatInvoiceDate(invoice.dueDate)}`, size: 9, align: "right" });
+  y += 50;
+
+  page.texts.push({ x: MARGIN, y, text: "From", size: 9, bold: true });
+  page.texts.push({ x: PAGE_WIDTH / 2, y, text: "Bill to", size: 9, bold: true });
+  const issuer = invoice.issuer.split("\n").filter(Boolean).slice(0, ADDRESS_LINES);
+  const billTo = invoice.billTo.split("\n").filter(Boolean).slice(0, ADDRESS_LINES);
+  issuer.forEach((line, index) =>
+    page.texts.push({ x: MARGIN, y: y + 14 * (index + 1), text: fitText(line, 10, PAGE_WIDTH / 2 - MARGIN - 10), size: 10 }),
+  );
+  billTo.forEach((line, index) =>
+    page.texts.push({ x: PAGE_WIDTH / 2, y: y + 14 * (index + 1), text: fitText(line, 10, RIGHT - PAGE_WIDTH / 2), size: 10 }),
+  );
+  y += 14 * (Math.max(issuer.length, billTo.length) + 1) + 16;
+
+  page.texts.push({
+    x: MARGIN,
+    y,
+    text: `Work from ${formatInvoiceDate(invoice.from)} to ${formatInvoiceDate(invoice.to)}`,
+    size: 10,
+  });
+  y += 30;
+  addTableHeader();
+
+  invoice.lines.forEach(line => {
+    if (y > BOTTOM) {
+      startNextPage();
+      addTableHeader();
+    }
+    page.texts.push({ x: MARGIN, y, text: fitText(line.description, 10, 250), size: 10 });
+    page.texts.push({ x: 360, y, text: line.hours.toFixed(2), size: 10, align: "right" });
+    page.texts.push({ x: 450, y, text: money(line.hourlyRate), size: 10, align: "right" });
+    page.texts.push({ x: RIGHT, y, text: money(line.amount), size: 10, align: "right" });
+    y += LINE_HEIGHT;
+  });
+
+  if (y + TOTALS_HEIGHT > BOTTOM) startNextPage();
+  page.lines.push({ x1: 330, y1: y - 6, x2: RIGHT, y2: y - 6 });
+  y += 10;
+  page.texts.push({ x: 450, y, text: "Subtotal", size: 10, align: "right" });
+  page.texts.push({ x: RIGHT, y, text: money(invoice.subtotal), size: 10, align: "right" });
+  y += 18;
+  page.texts.push({ x: 450, y, text: `Tax (${invoice.taxPercent}%)`, size: 10, align: "right" });
+  page.texts.push({ x: RIGHT, y, text: money(invoice.tax), size: 10, align: "right" });
+  y += 22;
+  page.texts.push({ x: 450, y, text: "Total", size: 12, bold: true, align: "right" });
+  page.texts.push({ x: RIGHT, y, text: money(invoice.total), size: 12, bold: true, align: "right" });
+  pages.push(page);
+
+  pages.forEach((done, index) =>
+    done.texts.push({ x: RIGHT, y: FOOTER_Y, text: `Page ${index + 1} of ${pages.length}`, size: 8, align: "right" }),
+  );
+
+  return createPdf(pages);
+};
@@ -0,0 +1,195 @@
+import { differenceInCalendarDays, eachDayOfInterval, format, isWeekend, parseISO } from "date-fns";
+import { z } from "zod";
+import { TrackerSettings, toDateKey } from "@/lib/settings";
+
+export type LeaveKind = "holiday" | "vacation" | "sick" | "unpaid";
+
+export const LEAVE_KINDS: Record<LeaveKind, string> = {
+  holiday: "Public holiday",
+  vacation: "Vacation",
+  sick: "Sick day",
+  unpaid: "Unpaid leave",
+};
+
+// Whether credited leave lowers the week's target or counts as time worked
+export type LeaveCreditMode = "reduceTarget" | "countAsWorked";
+
+// A day off. The credited time and how it counts are fixed when the day is
+// booked, so changing the policy later does not rewrite past weeks.
+export interface LeaveDay {
+  id: string;
+  date: string; // yyyy-MM-dd
+  kind: LeaveKind;
+  creditedMinutes: number;
+  creditMode?: LeaveCreditMode; // unset on days booked before it was kept; those follow the policy
+  note?: string;
+}
+
+export interface LeavePolicy {
+  creditMode: LeaveCreditMode;
+  creditedMinutes: Record<LeaveKind, number>; // suggested when booking a day of each kind
+  vacationDaysPerYear: number;
+}
+
+export const DEFAULT_LEAVE_POLICY: LeavePolicy = {
+  creditMode: "reduceTarget",
+  creditedMinutes: { holiday: 9 * 60, vacation: 9 * 60, sick: 9 * 60, unpaid: 0 },
+  vacationDaysPerYear: 25,
+};
+
+export const getLeave = (settings: TrackerSettings) => settings.leave ?? [];
+
+export const getLeavePolicy = (settings: TrackerSettings) => settings.leavePolicy ?? DEFAULT_LEAVE_POLICY;
+
+// Adds days off, replacing anything already booked on the same days
+export const bookLeave = (settings: TrackerSettings, days: LeaveDay[]): TrackerSettings => ({
+  ...settings,
+  leave: [...getLeave(settings).filter(day => !days.some(d => d.date === day.date)), ...days].sort((a, b) =>
+    a.date.localeCompare(b.date),
+  ),
+});
+
+export const removeLeave = (settings: TrackerSettings, id: string): TrackerSettings => ({
+  ...settings,
+  leave: getLeave(settings).filter(day => day.id !== id),
+});
+
+// e.g. "Vacation · Mon, Oct 12"
+export const formatLeaveDay = (day: LeaveDay) => `${LEAVE_KINDS[day.kind]} · ${format(parseISO(day.date), "EEE, MMM d")}`;
+
+export interface WeekLeave {
+  days: LeaveDay[];
+  leaveSeconds: number; // credited for all of the week's leave
+  targetSeconds: number; // the week's target after any reduction
+  creditedSeconds: number; // leave counted as worked toward that target
+}
+
+// The leave booked between two days (yyyy-MM-dd), inclusive, and how it
+// counts toward that week's target, each day the way it was booked
+export const getWeekLeave = (
+  settings: TrackerSettings,
+  from: string,
+  to: string,
+  weeklyTargetMinutes: number,
+): WeekLeave => {
+  const policyMode = getLeavePolicy(settings).creditMode;
+  const days = getLeave(settings).filter(day => day.date >= from && day.date <= to);
+  const secondsIn = (mode: LeaveCreditMode) =>
+    days
+      .filter(day => (day.creditMode ?? policyMode) === mode)
+      .reduce((sum, day) => sum + day.creditedMinutes * 60, 0);
+  const reducedSeconds = secondsIn("reduceTarget");
+  const creditedSeconds = secondsIn("countAsWorked");
+  return {
+    days,
+    leaveSeconds: reducedSeconds + creditedSeconds,
+    targetSeconds: Math.max(0, weeklyTargetMinutes * 60 - reducedSeconds),
+    creditedSeconds,
+  };
+};
+
+// How far into the week worked time starts to count as overtime: whichever
+// the mode, credited leave stands in for that much of the target
+export const getOvertimeThresholdMinutes = (leave: WeekLeave) =>
+  Math.max(0, leave.targetSeconds - leave.creditedSeconds) / 60;
+
+export interface VacationBalance {
+  year: number;
+  allowance: number;
+  taken: number; // vacation days booked that year, past or planned
+  remaining: number;
+}
+
+export const getVacationBalance = (settings: TrackerSettings, year: number): VacationBalance => {
+  const allowance = getLeavePolicy(settings).vacationDaysPerYear;
+  const taken = getLeave(settings).filter(day => day.kind === "vacation" && day.date.startsWith(`${year}-`)).length;
+  return { year, allowance, taken, remaining: allowance - taken };
+};
+
+// One balance per year with vacation booked, plus the current year, newest first
+export const getVacationBalances = (settings: TrackerSettings, now: Date) => {
+  const years = new Set([
+    now.getFullYear(),
+    ...getLeave(settings)
+      .filter(day => day.kind === "vacation")
+      .map(day => Number(day.date.slice(0, 4))),
+  ]);
+  return [...years].sort((a, b) => b - a).map(year => getVacationBalance(settings, year));
+};
+
+export const leaveFormSchema = z
+  .object({
+    kind: z.enum(["holiday", "vacation", "sick", "unpaid"]),
+    from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Pick the first day off"),
+    to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Pick the last day off"),
+    hours: z.coerce
+      .number({ invalid_type_error: "Enter a number of hours" })
+      .min(0, "Credited hours cannot be negative")
+      .max(24, "A day only has 24 hours"),
+    skipWeekends: z.boolean(),
+    note: z.string().max(200, "Keep the note under 200 characters"),
+  })
+  .refine(values => values.from <= values.to, {
+    message: "The last day cannot be before the first day",
+    path: ["to"],
+  })
+  .refine(values => differenceInCalendarDays(parseISO(values.to), parseISO(values.from)) < 366, {
+    message: "Book at most a year at a time",
+    path: ["to"],
+  });
+
+export type LeaveFormValues = z.infer<typeof leaveFormSchema>;
+
+// One day off for each day in the range, leaving out weekends if asked, each
+// counted the way the policy says at booking
+export const fromLeaveFormValues = (values: LeaveFormValues, policy: LeavePolicy): LeaveDay[] =>
+  eachDayOfInterval({ start: parseISO(values.from), end: parseISO(values.to) })
+    .filter(date => !(values.skipWeekends && isWeekend(date)))
+    .map(date => ({
+      id: crypto.randomUUID(),
+      date: toDateKey(date),
+      kind: values.kind,
+      creditedMinutes: Math.round(values.hours * 60),
+      creditMode: policy.creditMode,
+      note: values.note.trim() || undefined,
+    }));
+
+const creditedHours = z.coerce
+  .number({ invalid_type_error: "Enter a number of hours" })
+  .min(0, "Credited hours cannot be negative")
+  .max(24, "A day only has 24 hours");
+
+export const leavePolicyFormSchema = z.object({
+  creditMode: z.enum(["reduceTarget", "countAsWorked"]),
+  holidayHours: creditedHours,
+  vacationHours: creditedHours,
+  sickHours: creditedHours,
+  unpaidHours: creditedHours,
+  vacationDaysPerYear: z.coerce
+    .number({ invalid_type_error: "Enter a number of days" })
+    .int("Enter whole days")
+    .min(0, "The allowance cannot be negative")
+    .max(366, "A year only has 366 days"),
+});
+
+export type LeavePolicyFormValues = z.infer<typeof leavePolicyFormSchema>;
+
+export const toLeavePolicyFormValues = (policy: LeavePolicy): LeavePolicyFormValues => ({
+  creditMode: policy.creditMode,
+  holidayHours: policy.creditedMinutes.holiday / 60,
+  vacationHours: policy.creditedMinutes.vacation / 60,
+  sickHours: policy.creditedMinutes.sick / 60,
+  unpaidHours: policy.creditedMinutes.unpaid / 60,
+  vacationDaysPerYear: policy.vacationDaysPerYear,
+});
+
+export const fromLeavePolicyFormValues = (values: LeavePolicyFormValues): LeavePolicy => ({
+  creditMode: values.creditMode,
+  creditedMinutes: {
+    holiday: Math.round(values.holidayHours * 60),
+    vacation: Math.round(values.vacationHours * 60),
+    sick: Math.round(values.sickHours * 60),
+    unpaid: Math.round(values.unpaidHours * 60),
+  },
+  vacationDaysPerYear: values.vacationDaysPerYear,
+});
@@ -0,0 +1,46 @@
+import type { Project, WorkSession } from "@/types/tracker";
+import { findProject, getProjectLabel } from "@/lib/projects";
+
+// Splits "design, #review, Design" into ["design", "review"]: tags are
+// comma separated, a leading # is dropped and repeats are ignored.
+export const parseTags = (text: string) =>
+  text
+    .split(",")
+    .map(tag => tag.trim().replace(/^#/, ""))
+    .filter(tag => tag !== "")
+    .filter((tag, index, tags) => tags.findIndex(t => t.toLowerCase() === tag.toLowerCase()) === index);
+
+export const formatTags = (tags: string[] = []) => tags.join(", ");
+
+// Empty notes and tag lists are left off the session altogether
+export const toSessionNotes = (note: string, tags: string): Pick<WorkSession, "note" | "tags"> => {
+  const parsed = parseTags(tags);
+  return {
+    note: note.trim() || undefined,
+    tags: parsed.length > 0 ? parsed : undefined,
+  };
+};
+
+// Every tag in use, sorted, for the tag filter
+export const collectTags = (sessions: WorkSession[]) =>
+  [...new Set(sessions.flatMap(session => session.tags ?? []))].sort((a, b) => a.localeCompare(b));
+
+export interface SessionFilter {
+  query: string;
+  tag?: string;
+}
+
+export const isFilterActive = (filter: SessionFilter) => filter.query.trim() !== "" || filter.tag !== undefined;
+
+// Matches the query against the note, tags and project, ignoring case
+export const matchesSessionFilter = (session: WorkSession, filter: SessionFilter, projects: Project[]) => {
+  const tags = session.tags ?? [];
+  if (filter.tag && !tags.some(tag => tag.toLowerCase() === filter.tag.toLowerCase())) return false;
+
+  const query = filter.query.trim().toLowerCase();
+  if (!query) return true;
+  const project = findProject(projects, session.projectId);
+  return [session.note ?? "", ...tags, project ? getProjectLabel(project) : ""].some(text =>
+    text.toLowerCase().includes(query),
+  );
+};
@@ -0,0 +1,124 @@
+import { format, parseISO } from "date-fns";
+import { z } from "zod";
+import type { ArchivedWeek } from "@/types/tracker";
+import { TrackerSettings, toDateKey } from "@/lib/settings";
+import { formatDuration } from "@/lib/tracker";
+import { getWeekLeave } from "@/lib/leave";
+
+// A manual change to the overtime balance. Time off in lieu takes hours out
+// of the balance and credits them to the week the day off falls in, so that
+// week is not short.
+export interface OvertimeAdjustment {
+  id: string;
+  date: string; // yyyy-MM-dd
+  kind: "timeOff" | "adjustment";
+  minutes: number; // signed change to the balance; negative for time off
+  note?: string;
+}
+
+export const getAdjustments = (settings: TrackerSettings) => settings.overtimeAdjustments ?? [];
+
+export const addAdjustment = (settings: TrackerSettings, adjustment: OvertimeAdjustment): TrackerSettings => ({
+  ...settings,
+  overtimeAdjustments: [...getAdjustments(settings), adjustment].sort((a, b) => a.date.localeCompare(b.date)),
+});
+
+export const removeAdjustment = (settings: TrackerSettings, id: string): TrackerSettings => ({
+  ...settings,
+  overtimeAdjustments: getAdjustments(settings).filter(a => a.id !== id),
+});
+
+// e.g. "+2h 30m", "-45m"
+export const formatBalance = (seconds: number) =>
+  `${seconds < 0 ? "-" : "+"}${formatDuration(Math.abs(seconds))}`;
+
+// Time off taken between two days (yyyy-MM-dd), inclusive, in seconds
+export const getTimeOffSeconds = (adjustments: OvertimeAdjustment[], from: string, to: string) =>
+  adjustments
+    .filter(a => a.kind === "timeOff" && a.date >= from && a.date <= to)
+    .reduce((sum, a) => sum - a.minutes * 60, 0);
+
+// How far a week ended above (or below) its target, counting time off in lieu
+// taken that week as worked and allowing for any leave
+export const getWeekBalanceSeconds = (week: ArchivedWeek, settings: TrackerSettings) => {
+  const from = toDateKey(new Date(week.weekStart));
+  const to = toDateKey(new Date(week.weekEnd));
+  const leave = getWeekLeave(settings, from, to, week.weeklyTargetMinutes);
+  return (
+    week.totalSeconds +
+    getTimeOffSeconds(getAdjustments(settings), from, to) +
+    leave.creditedSeconds -
+    leave.targetSeconds
+  );
+};
+
+export interface LedgerRow {
+  date: string; // yyyy-MM-dd the change was booked on
+  description: string;
+  seconds: number;
+  balance: number; // running balance after this row
+  adjustment?: OvertimeAdjustment; // set for manual rows, which can be removed
+}
+
+const formatLedgerDate = (date: string) => format(parseISO(date), "MMM d, yyyy");
+
+// Every finished week and manual change in order, with the balance carried
+// from one to the next. Weeks are booked on their last day; the running week
+// only counts once it has been archived, and weeks made for imported sessions
+// not at all.
+export const getOvertimeLedger = (history: ArchivedWeek[], settings: TrackerSettings): LedgerRow[] => {
+  const adjustments = getAdjustments(settings);
+  const rows = [
+    ...history
+      .filter(week => !week.imported)
+      .map(week => ({
+        date: toDateKey(new Date(week.weekEnd)),
+        description: `Week of ${formatLedgerDate(toDateKey(new Date(week.weekStart)))}`,
+        seconds: getWeekBalanceSeconds(week, settings),
+      })),
+    ...adjustments.map(adjustment => ({
+      date: adjustment.date,
+      description:
+        (adjustment.kind === "timeOff" ? "Time off in lieu" : "Adjustment") +
+        (adjustment.note ? `: ${adjustment.note}` : ""),
+      seconds: adjustment.minutes * 60,
+      adjustment,
+    })),
+  ].sort((a, b) => a.date.localeCompare(b.date));
+
+  let balance = 0;
+  return rows.map(row => {
+    balance += row.seconds;
+    return { ...row, balance };
+  });
+};
+
+export const getOvertimeBalance = (history: ArchivedWeek[], settings: TrackerSettings) =>
+  getOvertimeLedger(history, settings).reduce((sum, row) => sum + row.seconds, 0);
+
+export const adjustmentFormSchema = z
+  .object({
+    kind: z.enum(["timeOff", "adjustment"]),
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Pick a day"),
+    hours: z.coerce
+      .number({ invalid_type_error: "Enter a number of hours" })
+      .min(-1000, "Adjust by at most 1000 hours")
+      .max(1000, "Adjust by at most 1000 hours")
+      .refine(hours => hours !== 0, "Enter a number of hours"),
+    note: z.string().max(200, "Keep the note under 200 characters"),
+  })
+  .refine(values => values.kind === "adjustment" || values.hours > 0, {
+    message: "Enter the hours taken off",
+    path: ["hours"],
+  });
+
+export type AdjustmentFormValues = z.infer<typeof adjustmentFormSchema>;
+
+// Hours taken off are stored as a deduction from the balance
+export const fromAdjustmentFormValues = (values: AdjustmentFormValues): OvertimeAdjustment => ({
+  id: crypto.randomUUID(),
+  date: values.date,
+  kind: values.kind,
+  minutes: Math.round(values.hours * 60) * (values.kind === "timeOff" ? -1 : 1),
+  note: values.note.trim() || undefined,
+});
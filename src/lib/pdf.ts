@@ -0,0 +1,134 @@
+// A minimal PDF writer for plain documents: text in the standard Helvetica
+// fonts and straight lines on A4 pages, enough for an invoice without a
+// PDF library. Coordinates are in points from the top-left corner.
+
+export const PAGE_WIDTH = 595;
+export const PAGE_HEIGHT = 842;
+
+export interface PdfText {
+  x: number;
+  y: number; // baseline
+  text: string;
+  size: number;
+  bold?: boolean;
+  align?: "left" | "right"; // right-aligned text ends at x
+}
+
+export interface PdfLine {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+export interface PdfPage {
+  texts: PdfText[];
+  lines: PdfLine[];
+}
+
+// Helvetica advance widths for the printable ASCII range, in 1/1000 em. Bold
+// is close enough to measure with the same table.
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833,
+  722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556,
+  556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334,
+  260, 334, 584,
+];
+
+// The few characters outside Latin-1 that WinAnsiEncoding can still show
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "€": 0x80,
+  "‘": 0x91,
+  "’": 0x92,
+  "“": 0x93,
+  "”": 0x94,
+  "•": 0x95,
+  "–": 0x96,
+  "—": 0x97,
+};
+
+const isWinAnsi = (char: string) => {
+  const code = char.charCodeAt(0);
+  return char in WIN_ANSI_EXTRAS || code < 0x80 || (code >= 0xa0 && code < 0x100);
+};
+
+// Whether the fonts can show every character of the text
+export const canRender = (text: string) => [...text].every(isWinAnsi);
+
+// Anything the fonts cannot show is written as a question mark
+const toWinAnsi = (text: string) =>
+  [...text]
+    .map(char => {
+      if (char in WIN_ANSI_EXTRAS) return String.fromCharCode(WIN_ANSI_EXTRAS[char]);
+      return isWinAnsi(char) ? char : "?";
+    })
+    .join("");
+
+export const textWidth = (text: string, size: number) =>
+  [...text].reduce((sum, char) => {
+    const code = char.charCodeAt(0);
+    if (code >= 32 && code <= 126) return sum + HELVETICA_WIDTHS[code - 32];
+    return sum + (code === 0xa0 ? 278 : 556);
+  }, 0) *
+  (size / 1000);
+
+// Shortens text with an ellipsis until it fits the width
+export const fitText = (text: string, size: number, width: number) => {
+  if (textWidth(text, size) <= width) return text;
+  let fitted = text;
+  while (fitted.length > 0 && textWidth(`${fitted}...`, size) > width) fitted = fitted.slice(0, -1);
+  return `${fitted.trimEnd()}...`;
+};
+
+const escapeText = (text: string) => toWinAnsi(text).replace(/([\\()])/g, "\\$1");
+
+const formatNumber = (value: number) => String(Math.round(value * 100) / 100);
+
+const renderPage = (page: PdfPage) =>
+  [
+    ...page.lines.map(
+      line =>
+        `${formatNumber(line.x1)} ${formatNumber(PAGE_HEIGHT - line.y1)} m ${formatNumber(line.x2)} ${formatNumber(PAGE_HEIGHT - line.y2)} l S`,
+    ),
+    ...page.texts.map(text => {
+      const x = text.align === "right" ? text.x - textWidth(text.text, text.size) : text.x;
+      return `BT /${text.bold ? "F2" : "F1"} ${text.size} Tf ${formatNumber(x)} ${formatNumber(PAGE_HEIGHT - text.y)} Td (${escapeText(text.text)}) Tj ET`;
+    }),
+  ].join("\n");
+
+// Builds the file; every character written is a single byte, so string
+// offsets double as the byte offsets the cross-reference table needs.
+export const createPdf = (pages: PdfPage[]) => {
+  const objects: string[] = [];
+  const add = (body: string) => objects.push(body);
+
+  add("<< /Type /Catalog /Pages 2 0 R >>");
+  add(""); // the page tree, filled in once the page objects are numbered
+  add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>");
+  add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>");
+
+  const pageIds = pages.map(page => {
+    const content = `0.5 w\n${renderPage(page)}`;
+    add(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+    add(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${objects.length} 0 R >>`,
+    );
+    return objects.length;
+  });
+  objects[1] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`;
+
+  let output = "%PDF-1.4\n";
+  const offsets = objects.map((body, index) => {
+    const offset = output.length;
+    output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+  const xref = output.length;
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map(offset => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return Uint8Array.from(output, char => char.charCodeAt(0));
+};
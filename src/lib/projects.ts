@@ -0,0 +1,77 @@
+import { z } from "zod";
+import type { Project, WorkSession } from "@/types/tracker";
+import type { TrackerSettings } from "@/lib/settings";
+import { getSessionSeconds } from "@/lib/sessions";
+
+// Select value standing for "not booked to any project"
+export const NO_PROJECT = "none";
+
+export const PROJECT_COLORS = ["#3b82f6", "#10b981", "#f59e0b", "#ef4444", "#8b5cf6", "#ec4899", "#14b8a6", "#64748b"];
+
+export const projectFormSchema = z.object({
+  name: z.string().trim().min(1, "Give the project a name").max(60, "Keep the name under 60 characters"),
+  client: z.string().trim().max(60, "Keep the client under 60 characters"),
+  color: z.string().regex(/^#[0-9a-f]{6}$/i, "Pick a color"),
+});
+
+export type ProjectFormValues = z.infer<typeof projectFormSchema>;
+
+export const getProjects = (settings: TrackerSettings) => settings.projects ?? [];
+
+// Projects that can still be picked for new sessions
+export const getActiveProjects = (settings: TrackerSettings) => getProjects(settings).filter(p => !p.archived);
+
+export const findProject = (projects: Project[], id?: string) =>
+  id === undefined ? undefined : projects.find(p => p.id === id);
+
+export const getProjectLabel = (project: Project) =>
+  project.client ? `${project.client} · ${project.name}` : project.name;
+
+// Adds a project, or replaces the one with the same id in place
+export const upsertProject = (settings: TrackerSettings, project: Project): TrackerSettings => {
+  const projects = getProjects(settings);
+  return {
+    ...settings,
+    projects: projects.some(p => p.id === project.id)
+      ? projects.map(p => (p.id === project.id ? project : p))
+      : [...projects, project],
+  };
+};
+
+// Sessions booked to a removed project keep their time but show as unassigned
+export const removeProject = (settings: TrackerSettings, id: string): TrackerSettings => ({
+  ...settings,
+  projects: getProjects(settings).filter(p => p.id !== id),
+});
+
+export const toProjectFormValues = (project?: Project): ProjectFormValues => ({
+  name: project?.name ?? "",
+  client: project?.client ?? "",
+  color: project?.color ?? PROJECT_COLORS[0],
+});
+
+export const fromProjectFormValues = (values: ProjectFormValues, project?: Project): Project => ({
+  id: project?.id ?? crypto.randomUUID(),
+  name: values.name,
+  client: values.client || undefined,
+  color: values.color,
+  archived: project?.archived ?? false,
+});
+
+export interface ProjectTotal {
+  project?: Project; // undefined for unassigned time
+  seconds: number;
+}
+
+// Time per project, largest first; time booked to projects that no longer
+// exist is counted as unassigned.
+export const getProjectTotals = (sessions: WorkSession[], projects: Project[]): ProjectTotal[] => {
+  const totals = new Map<Project | undefined, number>();
+  sessions.forEach(session => {
+    const project = findProject(projects, session.projectId);
+    totals.set(project, (totals.get(project) ?? 0) + getSessionSeconds(session));
+  });
+  return [...totals]
+    .map(([project, seconds]) => ({ project, seconds }))
+    .sort((a, b) => b.seconds - a.seconds);
+};
@@ -0,0 +1,150 @@
+import { z } from "zod";
+import type { DailyEntry, Project, WorkSession } from "@/types/tracker";
+import { TrackerSettings, toDateKey } from "@/lib/settings";
+import { findProject, getProjectLabel, getProjects } from "@/lib/projects";
+import { allocateBillableSeconds, getRoundingSettings } from "@/lib/rounding";
+
+// A rate applies to one project, to every project of a client, or, with
+// neither set, to all work that has no more specific rate.
+export interface HourlyRate {
+  id: string;
+  projectId?: string;
+  client?: string;
+  effectiveFrom: string; // yyyy-MM-dd
+  hourlyRate: number;
+  overtimeMultiplier: number; // for time beyond the weekly target
+}
+
+export const DEFAULT_CURRENCY = "USD";
+
+export const CURRENCIES = ["USD", "EUR", "GBP", "CHF", "CAD", "AUD", "INR", "JPY"];
+
+// Select value for a rate that covers all work
+export const ALL_WORK = "all";
+
+export const getRates = (settings: TrackerSettings) => settings.rates ?? [];
+
+export const getCurrency = (settings: TrackerSettings) => settings.currency ?? DEFAULT_CURRENCY;
+
+// With `display` "code" the amount reads "INR 1,000.00" rather than "₹1,000.00"
+export const formatMoney = (amount: number, currency: string, display: "symbol" | "code" = "symbol") =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency, currencyDisplay: display }).format(amount);
+
+const isSameSlot = (a: HourlyRate, b: HourlyRate) =>
+  a.projectId === b.projectId && a.client === b.client && a.effectiveFrom === b.effectiveFrom;
+
+// Adds a rate, replacing the one with the same id or for the same work from
+// the same day, and keeps the list sorted oldest first so the latest rate in
+// force is the last match.
+export const upsertRate = (settings: TrackerSettings, rate: HourlyRate): TrackerSettings => ({
+  ...settings,
+  rates: [...getRates(settings).filter(r => r.id !== rate.id && !isSameSlot(r, rate)), rate].sort((a, b) =>
+    a.effectiveFrom.localeCompare(b.effectiveFrom),
+  ),
+});
+
+export const removeRate = (settings: TrackerSettings, id: string): TrackerSettings => ({
+  ...settings,
+  rates: getRates(settings).filter(r => r.id !== id),
+});
+
+export const getClients = (projects: Project[]) =>
+  [...new Set(projects.flatMap(project => (project.client ? [project.client] : [])))].sort();
+
+export const getRateTarget = (rate: HourlyRate, projects: Project[]) => {
+  if (rate.projectId !== undefined) {
+    const project = findProject(projects, rate.projectId);
+    return project ? getProjectLabel(project) : "Deleted project";
+  }
+  return rate.client ?? "All work";
+};
+
+// The rate in force for a session on the day it was worked: a project rate
+// wins over a client rate, which wins over the rate for all work.
+export const findRate = (rates: HourlyRate[], projects: Project[], session: WorkSession) => {
+  const day = toDateKey(new Date(session.startTime));
+  const client = findProject(projects, session.projectId)?.client;
+  const inForce = rates.filter(r => r.effectiveFrom <= day);
+  const latest = (matches: (rate: HourlyRate) => boolean) => inForce.filter(matches).pop();
+
+  return (
+    latest(r => r.projectId !== undefined && r.projectId === session.projectId) ??
+    latest(r => r.client !== undefined && r.client === client) ??
+    latest(r => r.projectId === undefined && r.client === undefined)
+  );
+};
+
+export interface Earnings {
+  total: number;
+  overtime: number; // the extra earned through overtime multipliers
+  days: Map<string, number>; // keyed by DailyEntry.date
+  sessions: Map<string, number>; // keyed by WorkSession.id; sessions without a rate are left out
+}
+
+// Earnings for one week of entries, on billable time. Time past the weekly
+// target, counted in the order it was worked, is paid at the overtime
+// multiplier of whichever rate applies to it.
+export const getWeekEarnings = (
+  entries: DailyEntry[],
+  settings: TrackerSettings,
+  weeklyTargetMinutes: number,
+): Earnings => {
+  const rates = getRates(settings);
+  const projects = getProjects(settings);
+  const rounding = getRoundingSettings(settings);
+  const earnings: Earnings = { total: 0, overtime: 0, days: new Map(), sessions: new Map() };
+  let worked = 0;
+
+  entries.forEach(entry => {
+    const billable = allocateBillableSeconds(entry, rounding);
+    entry.sessions.forEach((session, index) => {
+      const seconds = billable[index];
+      const regular = Math.min(seconds, Math.max(0, weeklyTargetMinutes * 60 - worked));
+      worked += seconds;
+
+      const rate = findRate(rates, projects, session);
+      if (!rate) return;
+      const base = (seconds * rate.hourlyRate) / 3600;
+      const extra = ((seconds - regular) * rate.hourlyRate * (rate.overtimeMultiplier - 1)) / 3600;
+
+      earnings.sessions.set(session.id, base + extra);
+      earnings.days.set(entry.date, (earnings.days.get(entry.date) ?? 0) + base + extra);
+      earnings.total += base + extra;
+      earnings.overtime += extra;
+    });
+  });
+
+  return earnings;
+};
+
+export const rateFormSchema = z.object({
+  appliesTo: z.string(),
+  effectiveFrom: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Pick the date this rate starts applying"),
+  hourlyRate: z.coerce
+    .number({ invalid_type_error: "Enter an amount" })
+    .positive("The rate must be more than 0")
+    .max(100000, "That rate looks too high"),
+  overtimeMultiplier: z.coerce
+    .number({ invalid_type_error: "Enter a multiplier" })
+    .min(1, "Overtime cannot pay less than regular time")
+    .max(5, "Use a multiplier of at most 5"),
+});
+
+export type RateFormValues = z.infer<typeof rateFormSchema>;
+
+// appliesTo is ALL_WORK, "project:<id>" or "client:<name>"
+export const toRateTargetValue = (target: Pick<HourlyRate, "projectId" | "client">) =>
+  target.projectId !== undefined ? `project:${target.projectId}` : target.client ? `client:${target.client}` : ALL_WORK;
+
+export const fromRateFormValues = (values: RateFormValues): HourlyRate => {
+  const [kind, ...rest] = values.appliesTo.split(":");
+  const value = rest.join(":");
+  return {
+    id: crypto.randomUUID(),
+    projectId: kind === "project" ? value : undefined,
+    client: kind === "client" ? value : undefined,
+    effectiveFrom: values.effectiveFrom,
+    hourlyRate: values.hourlyRate,
+    overtimeMultiplier: values.overtimeMultiplier,
+  };
+};
@@ -0,0 +1,87 @@
+import { z } from "zod";
+import type { DailyEntry, WorkSession } from "@/types/tracker";
+import type { TrackerSettings } from "@/lib/settings";
+import { getSessionSeconds } from "@/lib/sessions";
+
+export type RoundingMode = "off" | "up" | "down" | "nearest";
+
+// Whether each session is rounded on its own or only each day's total
+export type RoundingScope = "session" | "day";
+
+// How tracked time is rounded for billing; sessions themselves always keep
+// the exact time.
+export interface RoundingSettings {
+  mode: RoundingMode;
+  incrementMinutes: number;
+  scope: RoundingScope;
+}
+
+export const DEFAULT_ROUNDING: RoundingSettings = { mode: "off", incrementMinutes: 15, scope: "session" };
+
+export const ROUNDING_INCREMENTS = [1, 5, 6, 10, 15, 30, 60];
+
+const MODE_LABELS: Record<Exclude<RoundingMode, "off">, string> = {
+  up: "up to",
+  down: "down to",
+  nearest: "to the nearest",
+};
+
+export const getRoundingSettings = (settings: TrackerSettings) => settings.rounding ?? DEFAULT_ROUNDING;
+
+export const isRoundingEnabled = (rounding: RoundingSettings) => rounding.mode !== "off";
+
+// e.g. "Rounded up to 15 min per session"
+export const describeRounding = (rounding: RoundingSettings) =>
+  rounding.mode === "off"
+    ? "No rounding"
+    : `Rounded ${MODE_LABELS[rounding.mode]} ${rounding.incrementMinutes} min per ${rounding.scope}`;
+
+export const roundSeconds = (seconds: number, rounding: RoundingSettings) => {
+  const increment = rounding.incrementMinutes * 60;
+  switch (rounding.mode) {
+    case "up":
+      return Math.ceil(seconds / increment) * increment;
+    case "down":
+      return Math.floor(seconds / increment) * increment;
+    case "nearest":
+      return Math.round(seconds / increment) * increment;
+    default:
+      return seconds;
+  }
+};
+
+// Billable time for one session; undefined when only day totals are rounded
+export const getBillableSessionSeconds = (session: WorkSession, rounding: RoundingSettings) =>
+  rounding.scope === "session" ? roundSeconds(getSessionSeconds(session), rounding) : undefined;
+
+// Billable time for each of a day's sessions, in order; a rounded day total
+// is shared out in proportion to the time tracked in each session.
+export const allocateBillableSeconds = (entry: DailyEntry, rounding: RoundingSettings) => {
+  const seconds = entry.sessions.map(getSessionSeconds);
+  if (rounding.scope === "session") return seconds.map(s => roundSeconds(s, rounding));
+
+  const billable = roundSeconds(entry.totalSeconds, rounding);
+  return seconds.map(s => (entry.totalSeconds > 0 ? (s * billable) / entry.totalSeconds : 0));
+};
+
+export const getBillableDaySeconds = (entry: DailyEntry, rounding: RoundingSettings) =>
+  rounding.scope === "day"
+    ? roundSeconds(entry.totalSeconds, rounding)
+    : entry.sessions.reduce((sum, session) => sum + roundSeconds(getSessionSeconds(session), rounding), 0);
+
+export const getBillableSeconds = (entries: DailyEntry[], rounding: RoundingSettings) =>
+  entries.reduce((sum, entry) => sum + getBillableDaySeconds(entry, rounding), 0);
+
+export const roundingFormSchema = z.object({
+  mode: z.enum(["off", "up", "down", "nearest"]),
+  incrementMinutes: z.coerce.number().int().min(1).max(60),
+  scope: z.enum(["session", "day"]),
+});
+
+export type RoundingFormValues = z.infer<typeof roundingFormSchema>;
+
+export const fromRoundingFormValues = (values: RoundingFormValues): RoundingSettings => ({
+  mode: values.mode,
+  incrementMinutes: values.incrementMinutes,
+  scope: values.scope,
+});
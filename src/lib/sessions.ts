@@ -0,0 +1,267 @@
+import { addDays, differenceInMinutes, format, isSameDay, parse, startOfDay } from "date-fns";
+import { z } from "zod";
+import type { ActiveSession, BreakInterval, DailyEntry, WeekData, WorkSession } from "@/types/tracker";
+import { NO_PROJECT } from "@/lib/projects";
+import { formatTags, toSessionNotes } from "@/lib/notes";
+
+// Identifies a logged session by the day it is filed under and its position
+export interface SessionRef {
+  date: string;
+  index: number;
+}
+
+export const getEntryDate = (date: Date) =>
+  date.toLocaleDateString('en-US', { year: 'numeric', month: 'numeric', day: 'numeric' });
+
+export const getEntryDisplayDate = (date: Date) =>
+  date.toLocaleDateString('en-US', { weekday: 'long', month: 'short', day: 'numeric' });
+
+// What a session was for, as opposed to when it happened
+export type SessionDetails = Pick<WorkSession, "projectId" | "note" | "tags">;
+
+// Cuts breaks down to the part that falls between start and end
+const clipBreaks = (breaks: BreakInterval[], start: Date, end: Date) =>
+  breaks
+    .map(b => ({
+      startTime: new Date(Math.max(new Date(b.startTime).getTime(), start.getTime())).toISOString(),
+      endTime: new Date(Math.min(new Date(b.endTime).getTime(), end.getTime())).toISOString(),
+    }))
+    .filter(b => b.startTime < b.endTime);
+
+const breakMillis = (breaks: BreakInterval[]) =>
+  breaks.reduce((sum, b) => sum + new Date(b.endTime).getTime() - new Date(b.startTime).getTime(), 0);
+
+// The breaks key is always set, if only to undefined, so a portion or copy
+// spread over the original never keeps breaks that fall outside it.
+export const createSession = (start: Date, end: Date, breaks: BreakInterval[] = []): WorkSession => {
+  const clipped = clipBreaks(breaks, start, end);
+  return {
+    id: crypto.randomUUID(),
+    startTime: start.toISOString(),
+    endTime: end.toISOString(),
+    breaks: clipped.length > 0 ? clipped : undefined,
+  };
+};
+
+// Time worked, in whole seconds, excluding breaks
+export const getSessionSeconds = (session: Pick<WorkSession, "startTime" | "endTime" | "breaks">) =>
+  Math.floor(
+    (new Date(session.endTime).getTime() - new Date(session.startTime).getTime() - breakMillis(session.breaks ?? [])) /
+      1000,
+  );
+
+export const getBreakSeconds = (sessions: WorkSession[]) =>
+  Math.floor(breakMillis(sessions.flatMap(session => session.breaks ?? [])) / 1000);
+
+// Turns the running session into a logged one ending at `end`. Ending while
+// on a break ends the session where the break began.
+export const finishActiveSession = (active: ActiveSession, end: Date): WorkSession => {
+  const { startTime, pausedAt, breaks, ...details } = active;
+  const stop = pausedAt && new Date(pausedAt) < end ? new Date(pausedAt) : end;
+  return { ...details, ...createSession(new Date(startTime), stop, breaks) };
+};
+
+export const pauseActiveSession = (active: ActiveSession, now: Date): ActiveSession => ({
+  ...active,
+  pausedAt: now.toISOString(),
+});
+
+export const resumeActiveSession = (active: ActiveSession, now: Date): ActiveSession => {
+  const { pausedAt, ...rest } = active;
+  if (!pausedAt) return active;
+  return { ...rest, breaks: [...(active.breaks ?? []), { startTime: pausedAt, endTime: now.toISOString() }] };
+};
+
+// Rebuilds daily totals from the sessions themselves, dropping days that no
+// longer have any sessions and keeping days and sessions in order.
+const tallyEntries = (entries: DailyEntry[]): DailyEntry[] =>
+  entries
+    .filter(entry => entry.sessions.length > 0)
+    .map(entry => {
+      const sessions = [...entry.sessions].sort((a, b) => a.startTime.localeCompare(b.startTime));
+      return {
+        ...entry,
+        sessions,
+        totalSeconds: sessions.reduce((sum, s) => sum + getSessionSeconds(s), 0),
+      };
+    })
+    .sort((a, b) => a.sessions[0].startTime.localeCompare(b.sessions[0].startTime));
+
+export const recalculateTotals = (week: WeekData): WeekData => {
+  const entries = tallyEntries(week.entries);
+  return {
+    ...week,
+    entries,
+    totalSeconds: entries.reduce((sum, e) => sum + e.totalSeconds, 0),
+  };
+};
+
+// Cuts a session at every midnight it crosses so each portion can be filed
+// under the day it was actually worked.
+// Portions keep every other field of the original session.
+export const splitSessionByDay = (session: WorkSession): WorkSession[] => {
+  const end = new Date(session.endTime);
+  let start = new Date(session.startTime);
+  if (isSameDay(start, end)) return [session];
+
+  const portions: WorkSession[] = [];
+  while (!isSameDay(start, end) && start < end) {
+    const midnight = startOfDay(addDays(start, 1));
+    portions.push({ ...session, ...createSession(start, midnight, session.breaks) });
+    start = midnight;
+  }
+  if (start < end) {
+    portions.push({ ...session, ...createSession(start, end, session.breaks) });
+  }
+
+  return portions;
+};
+
+// Cuts a session at the start of a week (an ISO timestamp): portions worked
+// before it belong to earlier weeks and are kept apart from the rest.
+export const splitSessionAtWeek = (session: WorkSession, weekStart: string) => {
+  const portions = splitSessionByDay(session);
+  return {
+    earlier: portions.filter(portion => portion.startTime < weekStart),
+    current: portions.filter(portion => portion.startTime >= weekStart),
+  };
+};
+
+// Files a single-day session under the day it was worked on
+const fileSession = (entries: DailyEntry[], session: WorkSession): DailyEntry[] => {
+  const start = new Date(session.startTime);
+  const date = getEntryDate(start);
+
+  return entries.some(e => e.date === date)
+    ? entries.map(e => (e.date === date ? { ...e, sessions: [...e.sessions, session] } : e))
+    : [...entries, { date, displayDate: getEntryDisplayDate(start), sessions: [session], totalSeconds: 0 }];
+};
+
+// Rebuilds daily entries from a flat list of already split sessions
+export const groupSessionsByDay = (sessions: WorkSession[]): DailyEntry[] =>
+  tallyEntries(sessions.reduce(fileSession, []));
+
+export const addSession = (week: WeekData, session: WorkSession): WeekData =>
+  recalculateTotals({ ...week, entries: splitSessionByDay(session).reduce(fileSession, week.entries) });
+
+export const removeSession = (week: WeekData, ref: SessionRef): WeekData =>
+  recalculateTotals({
+    ...week,
+    entries: week.entries.map(e =>
+      e.date === ref.date ? { ...e, sessions: e.sessions.filter((_, i) => i !== ref.index) } : e,
+    ),
+  });
+
+export const replaceSession = (week: WeekData, ref: SessionRef, session: WorkSession): WeekData =>
+  addSession(removeSession(week, ref), session);
+
+export const overlapsWith = (a: WorkSession, b: WorkSession) => a.startTime < b.endTime && b.startTime < a.endTime;
+
+// Sorts sessions coming in from elsewhere, such as a backup, into those to
+// add and those that share time with sessions already here. Sessions already
+// here under the same id are left out of both.
+export const mergeSessions = <T extends WorkSession>(incoming: T[], existing: WorkSession[]) => {
+  const known = new Set(existing.map(session => session.id));
+  const fresh = incoming.filter(session => !known.has(session.id));
+  return {
+    added: fresh.filter(session => !existing.some(s => overlapsWith(s, session))),
+    overlapping: fresh.filter(session => existing.some(s => overlapsWith(s, session))),
+  };
+};
+
+// Returns the first logged (or running) session that shares any time with
+// the given range, ignoring the session being edited.
+export const findOverlappingSession = (
+  week: Pick<WeekData, "entries" | "activeSession">,
+  start: Date,
+  end: Date,
+  ignore?: SessionRef,
+): WorkSession | undefined => {
+  const sessions = week.entries.flatMap(entry =>
+    entry.sessions.filter((_, index) => !(ignore && ignore.date === entry.date && ignore.index === index)),
+  );
+
+  if (week.activeSession) {
+    sessions.push(createSession(new Date(week.activeSession.startTime), new Date()));
+  }
+
+  return sessions.find(
+    s => new Date(s.startTime).getTime() < end.getTime() && start.getTime() < new Date(s.endTime).getTime(),
+  );
+};
+
+export type StaleSessionReason = "overMax" | "crossedMidnight";
+
+// A running session is considered forgotten once it has run past the
+// configured maximum or was started on an earlier day.
+export const getStaleSessionReason = (
+  start: Date,
+  now: Date,
+  maxSessionMinutes: number,
+): StaleSessionReason | undefined => {
+  if (differenceInMinutes(now, start) > maxSessionMinutes) return "overMax";
+  if (!isSameDay(start, now)) return "crossedMidnight";
+  return undefined;
+};
+
+const sessionDetailsFields = {
+  projectId: z.string(),
+  note: z.string().max(500, "Keep the note under 500 characters"),
+  tags: z.string().max(200, "Use fewer tags"),
+};
+
+export const sessionDetailsFormSchema = z.object(sessionDetailsFields);
+
+export type SessionDetailsFormValues = z.infer<typeof sessionDetailsFormSchema>;
+
+export const fromSessionDetailsFormValues = (values: SessionDetailsFormValues): SessionDetails => ({
+  projectId: values.projectId === NO_PROJECT ? undefined : values.projectId,
+  ...toSessionNotes(values.note, values.tags),
+});
+
+export const sessionFormSchema = z
+  .object({
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Pick the day you worked"),
+    startTime: z.string().regex(/^\d{2}:\d{2}$/, "Enter a start time"),
+    endTime: z.string().regex(/^\d{2}:\d{2}$/, "Enter an end time"),
+    ...sessionDetailsFields,
+  })
+  .refine(values => values.endTime !== values.startTime, {
+    message: "End time must differ from the start time",
+    path: ["endTime"],
+  });
+
+export type SessionFormValues = z.infer<typeof sessionFormSchema>;
+
+export const toSessionFormValues = (session: WorkSession): SessionFormValues => {
+  const start = new Date(session.startTime);
+  return {
+    date: format(start, "yyyy-MM-dd"),
+    startTime: format(start, "HH:mm"),
+    endTime: format(new Date(session.endTime), "HH:mm"),
+    projectId: session.projectId ?? NO_PROJECT,
+    note: session.note ?? "",
+    tags: formatTags(session.tags),
+  };
+};
+
+// An end time earlier than the start time means the session ran past midnight
+export const fromSessionFormValues = (values: SessionFormValues) => {
+  const start = parse(`${values.date} ${values.startTime}`, "yyyy-MM-dd HH:mm", new Date());
+  const end = parse(`${values.date} ${values.endTime}`, "yyyy-MM-dd HH:mm", new Date());
+  return {
+    start,
+    end: end <= start ? addDays(end, 1) : end,
+    ...fromSessionDetailsFormValues(values),
+  };
+};
+
+export const staleSessionFormSchema = z.object({
+  endAt: z.string().regex(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/, "Enter when you stopped working"),
+});
+
+export type StaleSessionFormValues = z.infer<typeof staleSessionFormSchema>;
+
+export const toDateTimeInputValue = (date: Date) => format(date, "yyyy-MM-dd'T'HH:mm");
+
+export const fromDateTimeInputValue = (value: string) => parse(value, "yyyy-MM-dd'T'HH:mm", new Date());
@@ -0,0 +1,102 @@
+import { format } from "date-fns";
+import { z } from "zod";
+import type { Project } from "@/types/tracker";
+import type { ComplianceSettings } from "@/lib/compliance";
+import type { RoundingSettings } from "@/lib/rounding";
+import type { HourlyRate } from "@/lib/rates";
+import type { InvoiceSettings } from "@/lib/invoices";
+import type { OvertimeAdjustment } from "@/lib/overtime";
+import type { LeaveDay, LeavePolicy } from "@/lib/leave";
+
+export interface TargetVersion {
+  effectiveFrom: string; // yyyy-MM-dd
+  weeklyTargetMinutes: number;
+  dailyMinimumMinutes: number;
+}
+
+export type WeekStartsOn = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+export interface TrackerSettings {
+  targets: TargetVersion[];
+  maxSessionMinutes?: number;
+  weekStartsOn?: WeekStartsOn;
+  projects?: Project[];
+  compliance?: ComplianceSettings;
+  rounding?: RoundingSettings;
+  rates?: HourlyRate[];
+  currency?: string;
+  invoicing?: InvoiceSettings;
+  overtimeAdjustments?: OvertimeAdjustment[];
+  leave?: LeaveDay[];
+  leavePolicy?: LeavePolicy;
+}
+
+export type Targets = Pick<TargetVersion, "weeklyTargetMinutes" | "dailyMinimumMinutes">;
+
+export const DEFAULT_TARGETS: Targets = {
+  weeklyTargetMinutes: 45 * 60, // 45 hours in minutes
+  dailyMinimumMinutes: 6 * 60, // 6 hours in minutes
+};
+
+export const DEFAULT_MAX_SESSION_MINUTES = 12 * 60; // 12 hours in minutes
+export const DEFAULT_WEEK_STARTS_ON: WeekStartsOn = 1; // Monday, as in ISO weeks
+
+export const targetFormSchema = z
+  .object({
+    effectiveFrom: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Pick the date these targets start applying"),
+    weeklyTargetHours: z.coerce
+      .number({ invalid_type_error: "Enter a number of hours" })
+      .positive("Weekly target must be more than 0 hours")
+      .max(168, "A week only has 168 hours"),
+    dailyMinimumHours: z.coerce
+      .number({ invalid_type_error: "Enter a number of hours" })
+      .min(0, "Daily minimum cannot be negative")
+      .max(24, "A day only has 24 hours"),
+  })
+  .refine(values => values.dailyMinimumHours <= values.weeklyTargetHours, {
+    message: "Daily minimum cannot exceed the weekly target",
+    path: ["dailyMinimumHours"],
+  });
+
+export type TargetFormValues = z.infer<typeof targetFormSchema>;
+
+export const trackingSettingsFormSchema = z.object({
+  maxSessionHours: z.coerce
+    .number({ invalid_type_error: "Enter a number of hours" })
+    .min(1, "Allow sessions of at least 1 hour")
+    .max(24, "Sessions longer than 24 hours are always flagged"),
+  weekStartsOn: z.coerce.number().int().min(0).max(6),
+});
+
+export type TrackingSettingsFormValues = z.infer<typeof trackingSettingsFormSchema>;
+
+export const toDateKey = (date: Date) => format(date, "yyyy-MM-dd");
+
+// Adds a target version, replacing any existing one with the same effective
+// date, and keeps the list sorted oldest first.
+export const upsertTargetVersion = (settings: TrackerSettings, version: TargetVersion): TrackerSettings => ({
+  ...settings,
+  targets: [...settings.targets.filter(t => t.effectiveFrom !== version.effectiveFrom), version].sort((a, b) =>
+    a.effectiveFrom.localeCompare(b.effectiveFrom),
+  ),
+});
+
+// The targets in force on a given date: the latest version whose effective
+// date is on or before it, falling back to the built-in defaults.
+export const getTargetsAt = (settings: TrackerSettings, date: Date): Targets => {
+  const key = toDateKey(date);
+  const version = settings.targets.filter(t => t.effectiveFrom <= key).pop();
+  return version
+    ? { weeklyTargetMinutes: version.weeklyTargetMinutes, dailyMinimumMinutes: version.dailyMinimumMinutes }
+    : DEFAULT_TARGETS;
+};
+
+export const getMaxSessionMinutes = (settings: TrackerSettings) =>
+  settings.maxSessionMinutes ?? DEFAULT_MAX_SESSION_MINUTES;
+
+export const getWeekStartsOn = (settings: TrackerSettings) => settings.weekStartsOn ?? DEFAULT_WEEK_STARTS_ON;
+
+export const formatHours = (totalMinutes: number) => {
+  const hours = Math.round((totalMinutes / 60) * 100) / 100;
+  return `${hours} ${hours === 1 ? "hour" : "hours"}`;
+};
@@ -0,0 +1,791 @@
+import { z } from "zod";
+import { toast } from "sonner";
+import type { ArchivedWeek, WeekData, WorkSession } from "@/types/tracker";
+import { Targets, TrackerSettings, WeekStartsOn, getTargetsAt, getWeekStartsOn, toDateKey } from "@/lib/settings";
+import { getWeekEnd, getWeekStart } from "@/lib/weeks";
+import { createSession, groupSessionsByDay, mergeSessions, splitSessionByDay } from "@/lib/sessions";
+import {
+  CURRENT_WEEK_KEY,
+  CurrentWeekRecord,
+  META_STORE,
+  SESSIONS_STORE,
+  SessionRecord,
+  WEEKS_STORE,
+  WeekRecord,
+  openDatabase,
+  requestToPromise,
+  transactionDone,
+} from "@/lib/db";
+
+// Small preferences live in localStorage; sessions and weeks live in IndexedDB
+export const STORAGE_KEY = "workTracker";
+export const BACKUP_KEY_PREFIX = "workTracker.backup.";
+
+// Keys written by versions of the app before the storage schema was versioned
+export const LEGACY_WEEK_KEY = "weeklyWorkHours";
+export const LEGACY_HISTORY_KEY = "weeklyWorkHistory";
+export const LEGACY_SETTINGS_KEY = "trackerSettings";
+
+export const SCHEMA_VERSION = 3;
+
+// Tells other open tabs that the sessions in IndexedDB have changed
+const CHANNEL_NAME = "workTracker";
+const channel = typeof BroadcastChannel === "undefined" ? undefined : new BroadcastChannel(CHANNEL_NAME);
+
+const workSessionSchema = z.object({
+  id: z.string().optional(),
+  startTime: z.string().datetime(),
+  endTime: z.string().datetime(),
+});
+
+const dailyEntrySchema = z.object({
+  date: z.string(),
+  displayDate: z.string(),
+  sessions: z.array(workSessionSchema),
+  totalMinutes: z.number().nonnegative(),
+});
+
+const weekDataSchema = z.object({
+  totalMinutes: z.number().nonnegative(),
+  entries: z.array(dailyEntrySchema),
+  lastResetDate: z.string().datetime(),
+  activeSession: z.object({ startTime: z.string().datetime() }).optional(),
+});
+
+const archivedWeekSchema = z.object({
+  weekStart: z.string().datetime(),
+  weekEnd: z.string().datetime(),
+  totalMinutes: z.number().nonnegative(),
+  entries: z.array(dailyEntrySchema),
+  weeklyTargetMinutes: z.number().positive(),
+  dailyMinimumMinutes: z.number().nonnegative(),
+});
+
+// Records as kept in IndexedDB; they are checked on the way in from a backup
+// and on the way out of the database.
+const breakIntervalSchema = z.object({
+  startTime: z.string().datetime(),
+  endTime: z.string().datetime(),
+});
+
+export const sessionRecordSchema = z.object({
+  id: z.string(),
+  startTime: z.string().datetime(),
+  endTime: z.string().datetime(),
+  projectId: z.string().optional(),
+  note: z.string().optional(),
+  tags: z.array(z.string()).optional(),
+  breaks: z.array(breakIntervalSchema).optional(),
+  day: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  weekStart: z.string().datetime(),
+});
+
+export const weekRecordSchema = z.object({
+  weekStart: z.string().datetime(),
+  weekEnd: z.string().datetime(),
+  weeklyTargetMinutes: z.number().positive(),
+  dailyMinimumMinutes: z.number().nonnegative(),
+  imported: z.boolean().optional(),
+});
+
+export const currentWeekRecordSchema = z.object({
+  lastResetDate: z.string().datetime(),
+  activeSession: z
+    .object({
+      startTime: z.string().datetime(),
+      projectId: z.string().optional(),
+      note: z.string().optional(),
+      tags: z.array(z.string()).optional(),
+      breaks: z.array(breakIntervalSchema).optional(),
+      pausedAt: z.string().datetime().optional(),
+    })
+    .optional(),
+});
+
+export const settingsSchema = z.object({
+  targets: z.array(
+    z.object({
+      effectiveFrom: z.string(),
+      weeklyTargetMinutes: z.number().positive(),
+      dailyMinimumMinutes: z.number().nonnegative(),
+    }),
+  ),
+  maxSessionMinutes: z.number().positive().optional(),
+  weekStartsOn: z.number().int().min(0).max(6).optional(),
+  projects: z
+    .array(
+      z.object({
+        id: z.string(),
+        name: z.string(),
+        client: z.string().optional(),
+        color: z.string(),
+        archived: z.boolean(),
+      }),
+    )
+    .optional(),
+  compliance: z
+    .object({
+      country: z.string(),
+      rules: z.object({
+        breaks: z.array(z.object({ afterMinutes: z.number().positive(), breakMinutes: z.number().positive() })),
+        maxDailyMinutes: z.number().positive().optional(),
+        minRestMinutes: z.number().positive().optional(),
+      }),
+    })
+    .optional(),
+  rounding: z
+    .object({
+      mode: z.enum(["off", "up", "down", "nearest"]),
+      incrementMinutes: z.number().int().positive(),
+      scope: z.enum(["session", "day"]),
+    })
+    .optional(),
+  rates: z
+    .array(
+      z.object({
+        id: z.string(),
+        projectId: z.string().optional(),
+        client: z.string().optional(),
+        effectiveFrom: z.string(),
+        hourlyRate: z.number().positive(),
+        overtimeMultiplier: z.number().min(1),
+      }),
+    )
+    .optional(),
+  currency: z.string().optional(),
+  invoicing: z
+    .object({
+      issuer: z.string(),
+      nextNumber: z.string(),
+      taxPercent: z.number().min(0).max(100),
+      dueDays: z.number().int().nonnegative(),
+    })
+    .optional(),
+  overtimeAdjustments: z
+    .array(
+      z.object({
+        id: z.string(),
+        date: z.string(),
+        kind: z.enum(["timeOff", "adjustment"]),
+        minutes: z.number().int(),
+        note: z.string().optional(),
+      }),
+    )
+    .optional(),
+  leave: z
+    .array(
+      z.object({
+        id: z.string(),
+        date: z.string(),
+        kind: z.enum(["holiday", "vacation", "sick", "unpaid"]),
+        creditedMinutes: z.number().int().nonnegative(),
+        creditMode: z.enum(["reduceTarget", "countAsWorked"]).optional(),
+        note: z.string().optional(),
+      }),
+    )
+    .optional(),
+  leavePolicy: z
+    .object({
+      creditMode: z.enum(["reduceTarget", "countAsWorked"]),
+      creditedMinutes: z.object({
+        holiday: z.number().int().nonnegative(),
+        vacation: z.number().int().nonnegative(),
+        sick: z.number().int().nonnegative(),
+        unpaid: z.number().int().nonnegative(),
+      }),
+      vacationDaysPerYear: z.number().int().nonnegative(),
+    })
+    .optional(),
+});
+
+const storedStateSchema = z.object({
+  version: z.literal(SCHEMA_VERSION),
+  settings: settingsSchema,
+  // Data from before sessions moved to IndexedDB, waiting to be imported there
+  pendingImport: z
+    .object({
+      week: weekDataSchema.nullable(),
+      history: z.array(archivedWeekSchema),
+    })
+    .optional(),
+});
+
+type PendingImport = z.infer<typeof storedStateSchema>["pendingImport"];
+
+export interface StoredState {
+  version: number;
+  settings: TrackerSettings;
+  pendingImport?: PendingImport;
+}
+
+export const createEmptyState = (): StoredState => ({
+  version: SCHEMA_VERSION,
+  settings: { targets: [] },
+});
+
+// Each migration upgrades a raw stored document from version N to N + 1,
+// reading only the parts it moves; the final schema parse checks the rest.
+const migrations: Record<number, (raw: unknown) => unknown> = {
+  // v1 is the unversioned layout spread across the legacy keys; settings
+  // saved before the week start became configurable keep the Monday default.
+  1: raw => {
+    const v1 = z
+      .object({ week: z.unknown(), history: z.unknown(), settings: z.record(z.unknown()).optional() })
+      .parse(raw);
+    return {
+      version: 2,
+      week: v1.week ?? null,
+      history: v1.history ?? [],
+      settings: { targets: [], ...v1.settings },
+    };
+  },
+  // v3 moves sessions and history out of localStorage into IndexedDB
+  2: raw => {
+    const v2 = z.object({ week: z.unknown(), history: z.unknown(), settings: z.unknown() }).parse(raw);
+    return {
+      version: 3,
+      settings: v2.settings,
+      pendingImport: { week: v2.week, history: v2.history },
+    };
+  },
+};
+
+const LEGACY_KEYS = [LEGACY_WEEK_KEY, LEGACY_HISTORY_KEY, LEGACY_SETTINGS_KEY];
+
+const readLegacyState = () => {
+  const [week, history, settings] = LEGACY_KEYS.map(key => localStorage.getItem(key));
+  return {
+    version: 1,
+    week: JSON.parse(week),
+    history: history ? JSON.parse(history) : [],
+    settings: settings ? JSON.parse(settings) : undefined,
+  };
+};
+
+const versionSchema = z.object({ version: z.number().int().positive().optional() });
+
+// Without strict null checks zod infers every field as optional, so instead of
+// taking the parsed copy the schema vouches for the document itself
+const assertStoredState: (raw: unknown) => asserts raw is StoredState = raw => {
+  storedStateSchema.parse(raw);
+};
+
+export const migrateState = (raw: unknown): StoredState => {
+  let migrated = raw;
+  for (let version = versionSchema.parse(raw).version ?? 1; version < SCHEMA_VERSION; version++) {
+    const migrate = migrations[version];
+    if (!migrate) {
+      throw new Error(`No migration from storage schema version ${version}`);
+    }
+    migrated = migrate(migrated);
+  }
+  assertStoredState(migrated);
+  return migrated;
+};
+
+// Settings are first read while the app renders, before the toaster has
+// subscribed, so notices raised until then wait for showPendingNotices.
+let isToasterReady = false;
+let pendingNotices: (() => void)[] = [];
+
+const notify = (show: () => void) => {
+  if (isToasterReady) show();
+  else pendingNotices.push(show);
+};
+
+export const showPendingNotices = () => {
+  isToasterReady = true;
+  pendingNotices.forEach(show => show());
+  pendingNotices = [];
+};
+
+// Keeps the unreadable data around so it can be recovered by hand, then
+// starts over with an empty state rather than crashing the page.
+const recoverFromCorruptState = (raw: string, error: unknown): StoredState => {
+  const backupKey = `${BACKUP_KEY_PREFIX}${new Date().toISOString()}`;
+  localStorage.setItem(backupKey, raw);
+  console.error("Stored tracker data is corrupt, starting fresh:", error);
+  notify(() =>
+    toast.error("Your saved data could not be read.", {
+      description: `A copy was kept in your browser storage under "${backupKey}" and the tracker has started fresh.`,
+    }),
+  );
+
+  const state = createEmptyState();
+  saveState(state);
+  return state;
+};
+
+export const saveState = (state: StoredState) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+};
+
+export const loadState = (): StoredState => {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  const isLegacy = stored === null && localStorage.getItem(LEGACY_WEEK_KEY) !== null;
+  if (stored === null && !isLegacy) return createEmptyState();
+
+  try {
+    const raw = isLegacy ? readLegacyState() : JSON.parse(stored);
+    const state = migrateState(raw);
+    if (raw.version !== SCHEMA_VERSION) {
+      saveState(state);
+    }
+    if (isLegacy) {
+      LEGACY_KEYS.forEach(key => localStorage.removeItem(key));
+    }
+    return state;
+  } catch (error) {
+    // Legacy keys are left in place; the backup bundles them for convenience
+    const raw = isLegacy
+      ? JSON.stringify(Object.fromEntries(LEGACY_KEYS.map(key => [key, localStorage.getItem(key)])))
+      : stored;
+    return recoverFromCorruptState(raw, error);
+  }
+};
+
+export const reportStorageError = (error: unknown) => {
+  console.error("Tracker storage failed:", error);
+  toast.error("Your sessions could not be saved or loaded.", {
+    description: "Check that this site is allowed to store data in your browser.",
+  });
+};
+
+export const loadSettings = () => loadState().settings;
+
+// Takes the new settings, or a function making them from the settings as
+// saved right now, so that changes saved meanwhile in another tab are kept.
+// Returns what was saved.
+export const saveSettings = (next: TrackerSettings | ((saved: TrackerSettings) => TrackerSettings)) => {
+  const state = loadState();
+  const settings = typeof next === "function" ? next(state.settings) : next;
+  saveState({ ...state, settings });
+  return settings;
+};
+
+// Settings are small enough for localStorage, whose own storage event already
+// reaches every other tab.
+export const subscribeToSettingsChanges = (listener: (settings: TrackerSettings) => void) => {
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === STORAGE_KEY) listener(loadSettings());
+  };
+  window.addEventListener("storage", handleStorage);
+  return () => window.removeEventListener("storage", handleStorage);
+};
+
+export const subscribeToWeekChanges = (listener: () => void) => {
+  if (!channel) return () => {};
+
+  const handleMessage = () => listener();
+  channel.addEventListener("message", handleMessage);
+  return () => channel.removeEventListener("message", handleMessage);
+};
+
+const notifyWeekChanged = () => channel?.postMessage({ type: "week-changed" });
+
+const toSessionRecord = (session: WorkSession, weekStart: string): SessionRecord => ({
+  ...session,
+  day: toDateKey(new Date(session.startTime)),
+  weekStart,
+});
+
+const fromSessionRecord = ({ day, weekStart, ...session }: SessionRecord): WorkSession => session;
+
+// Leaves out records that fail their schema, written by hand or by a newer
+// version of the app, so one bad record does not keep the rest from loading.
+// They stay in the database untouched.
+const dropInvalid = <T>(schema: z.ZodTypeAny, records: T[], store: string) =>
+  records.filter(record => {
+    const result = schema.safeParse(record);
+    if (!result.success) console.error(`Skipped an invalid record in ${store}:`, record, result.error);
+    return result.success;
+  });
+
+// The current week cannot be pieced together without its record, so a bad
+// one fails the load instead of starting a fresh week over it
+const readCurrentWeek = async (meta: IDBObjectStore) => {
+  const current = await requestToPromise(meta.get(CURRENT_WEEK_KEY) as IDBRequest<CurrentWeekRecord | undefined>);
+  if (current !== undefined && !currentWeekRecordSchema.safeParse(current).success) {
+    throw new Error("The current week record in the database is invalid.");
+  }
+  return current;
+};
+
+const sessionsOf = (entries: WeekData["entries"]) => entries.flatMap(entry => entry.sessions);
+
+// Copies data saved before the move to IndexedDB into the database once, then
+// drops it from localStorage.
+const importPendingData = async (db: IDBDatabase) => {
+  const state = loadState();
+  if (!state.pendingImport) return;
+
+  const { week, history } = state.pendingImport;
+  const transaction = db.transaction([SESSIONS_STORE, WEEKS_STORE, META_STORE], "readwrite");
+  const sessions = transaction.objectStore(SESSIONS_STORE);
+  // Only the fields a session is kept with; legacy ones also stored a duration
+  const withId = ({ id, startTime, endTime }: Omit<WorkSession, "id"> & { id?: string }): WorkSession => ({
+    id: id ?? crypto.randomUUID(),
+    startTime,
+    endTime,
+  });
+
+  history.forEach(archived => {
+    const record: WeekRecord = {
+      weekStart: archived.weekStart,
+      weekEnd: archived.weekEnd,
+      weeklyTargetMinutes: archived.weeklyTargetMinutes,
+      dailyMinimumMinutes: archived.dailyMinimumMinutes,
+    };
+    transaction.objectStore(WEEKS_STORE).put(record);
+    sessionsOf(archived.entries as WeekData["entries"]).forEach(session =>
+      sessions.put(toSessionRecord(withId(session), archived.weekStart)),
+    );
+  });
+
+  if (week) {
+    // Weeks started before rollover followed calendar weeks began whenever
+    // the app was first opened; line them up with the calendar week.
+    const lastResetDate = getWeekStart(new Date(week.lastResetDate), getWeekStartsOn(state.settings)).toISOString();
+    const current: CurrentWeekRecord = { lastResetDate, activeSession: week.activeSession as WeekData["activeSession"] };
+    transaction.objectStore(META_STORE).put(current, CURRENT_WEEK_KEY);
+    sessionsOf(week.entries as WeekData["entries"]).forEach(session =>
+      sessions.put(toSessionRecord(withId(session), lastResetDate)),
+    );
+  }
+
+  await transactionDone(transaction);
+  saveState({ version: state.version, settings: state.settings });
+};
+
+let importPromise: Promise<void> | undefined;
+
+const getDatabase = async () => {
+  const db = await openDatabase();
+  importPromise ??= importPendingData(db);
+  await importPromise;
+  return db;
+};
+
+const loadWeekSessions = async (db: IDBDatabase, weekStart: string) => {
+  const index = db.transaction(SESSIONS_STORE).objectStore(SESSIONS_STORE).index("weekStart");
+  const records = await requestToPromise(index.getAll(weekStart) as IDBRequest<SessionRecord[]>);
+  return dropInvalid(sessionRecordSchema, records, SESSIONS_STORE).map(fromSessionRecord);
+};
+
+export const loadWeek = async (): Promise<WeekData | null> => {
+  const db = await getDatabase();
+  const current = await readCurrentWeek(db.transaction(META_STORE).objectStore(META_STORE));
+  if (!current) return null;
+
+  const entries = groupSessionsByDay(await loadWeekSessions(db, current.lastResetDate));
+  return {
+    ...current,
+    entries,
+    totalSeconds: entries.reduce((sum, e) => sum + e.totalSeconds, 0),
+  };
+};
+
+// Writes only what differs between the last saved copy of the week and the
+// new one: changed sessions are put, removed ones deleted. A week with a
+// different start is a fresh week, so nothing of the previous one is deleted.
+// Other tabs only hear about it when something was written, so a tab that
+// reloads on their saves does not set off another round.
+export const saveWeekChanges = async (previous: WeekData | null, next: WeekData) => {
+  const sameWeek = previous?.lastResetDate === next.lastResetDate;
+  const before = new Map(sameWeek ? sessionsOf(previous.entries).map(s => [s.id, s]) : []);
+  const changed = sessionsOf(next.entries).filter(session => {
+    const old = before.get(session.id);
+    before.delete(session.id);
+    return !old || JSON.stringify(old) !== JSON.stringify(session);
+  });
+  const metaChanged = !sameWeek || previous.activeSession?.startTime !== next.activeSession?.startTime;
+  if (changed.length === 0 && before.size === 0 && !metaChanged) return;
+
+  const db = await getDatabase();
+  const transaction = db.transaction([SESSIONS_STORE, META_STORE], "readwrite");
+  const sessions = transaction.objectStore(SESSIONS_STORE);
+  changed.forEach(session => sessions.put(toSessionRecord(session, next.lastResetDate)));
+  before.forEach((_, id) => sessions.delete(id));
+
+  if (metaChanged) {
+    const current: CurrentWeekRecord = { lastResetDate: next.lastResetDate, activeSession: next.activeSession };
+    transaction.objectStore(META_STORE).put(current, CURRENT_WEEK_KEY);
+  }
+
+  await transactionDone(transaction);
+  notifyWeekChanged();
+};
+
+// Clocking in and out goes straight to the database so two tabs cannot both
+// start a session, or both end the same one and log it twice. Each resolves to
+// false when another tab got there first.
+export const claimActiveSession = async (weekStart: string, activeSession: WeekData["activeSession"]) => {
+  const db = await getDatabase();
+  const transaction = db.transaction(META_STORE, "readwrite");
+  const meta = transaction.objectStore(META_STORE);
+  const current = await requestToPromise(meta.get(CURRENT_WEEK_KEY) as IDBRequest<CurrentWeekRecord | undefined>);
+
+  const claimed = !current?.activeSession;
+  if (claimed) {
+    const record: CurrentWeekRecord = { lastResetDate: current?.lastResetDate ?? weekStart, activeSession };
+    meta.put(record, CURRENT_WEEK_KEY);
+  }
+  await transactionDone(transaction);
+  if (claimed) notifyWeekChanged();
+  return claimed;
+};
+
+export const releaseActiveSession = async (startTime: string) => {
+  const db = await getDatabase();
+  const transaction = db.transaction(META_STORE, "readwrite");
+  const meta = transaction.objectStore(META_STORE);
+  const current = await requestToPromise(meta.get(CURRENT_WEEK_KEY) as IDBRequest<CurrentWeekRecord | undefined>);
+
+  const released = current?.activeSession?.startTime === startTime;
+  if (released) {
+    meta.put({ lastResetDate: current.lastResetDate }, CURRENT_WEEK_KEY);
+  }
+  await transactionDone(transaction);
+  return released;
+};
+
+// Swaps the running session for the next one in a single step, so switching
+// tasks or pausing cannot race another tab clocking out. Resolves to false
+// when the session had already been ended elsewhere.
+export const replaceActiveSession = async (startTime: string, next: WeekData["activeSession"]) => {
+  const db = await getDatabase();
+  const transaction = db.transaction(META_STORE, "readwrite");
+  const meta = transaction.objectStore(META_STORE);
+  const current = await requestToPromise(meta.get(CURRENT_WEEK_KEY) as IDBRequest<CurrentWeekRecord | undefined>);
+
+  const switched = current?.activeSession?.startTime === startTime;
+  if (switched) {
+    const record: CurrentWeekRecord = { lastResetDate: current.lastResetDate, activeSession: next };
+    meta.put(record, CURRENT_WEEK_KEY);
+  }
+  await transactionDone(transaction);
+  if (switched) notifyWeekChanged();
+  return switched;
+};
+
+// Freezes the finished week into the history along with the targets it was
+// tracked against; its sessions stay where they are, keyed by the week start.
+export const archiveWeek = async (week: WeekData, targets: Targets, weekStartsOn: WeekStartsOn) => {
+  const db = await getDatabase();
+  const record: WeekRecord = {
+    weekStart: week.lastResetDate,
+    weekEnd: getWeekEnd(new Date(week.lastResetDate), weekStartsOn).toISOString(),
+    weeklyTargetMinutes: targets.weeklyTargetMinutes,
+    dailyMinimumMinutes: targets.dailyMinimumMinutes,
+  };
+  const transaction = db.transaction(WEEKS_STORE, "readwrite");
+  transaction.objectStore(WEEKS_STORE).put(record);
+  await transactionDone(transaction);
+  notifyWeekChanged();
+};
+
+// An archive entry for a week never tracked live, with the targets in force
+// when it started. It is marked as imported, as it may hold no more than a
+// few sessions and would book the rest of its target as missing overtime.
+const createWeekRecord = (weekStart: Date, settings: TrackerSettings): WeekRecord => {
+  const targets = getTargetsAt(settings, weekStart);
+  return {
+    weekStart: weekStart.toISOString(),
+    weekEnd: getWeekEnd(weekStart, getWeekStartsOn(settings)).toISOString(),
+    weeklyTargetMinutes: targets.weeklyTargetMinutes,
+    dailyMinimumMinutes: targets.dailyMinimumMinutes,
+    imported: true,
+  };
+};
+
+// Every logged session worked between two days (yyyy-MM-dd), inclusive,
+// whichever week it was tracked in
+export const loadSessionsBetween = async (from: string, to: string) => {
+  const db = await getDatabase();
+  const index = db.transaction(SESSIONS_STORE).objectStore(SESSIONS_STORE).index("day");
+  const records = await requestToPromise(index.getAll(IDBKeyRange.bound(from, to)) as IDBRequest<SessionRecord[]>);
+  return dropInvalid(sessionRecordSchema, records, SESSIONS_STORE)
+    .map(fromSessionRecord)
+    .sort((a, b) => a.startTime.localeCompare(b.startTime));
+};
+
+// Files single-day sessions under the weeks they fall in. Weeks that were
+// never tracked get an archive entry, with the targets in force at the time,
+// so they show up in the history.
+const fileSessions = async (transaction: IDBTransaction, put: WorkSession[], settings: TrackerSettings) => {
+  const weekStartsOn = getWeekStartsOn(settings);
+  const sessions = transaction.objectStore(SESSIONS_STORE);
+  const weeks = transaction.objectStore(WEEKS_STORE);
+  const current = await readCurrentWeek(transaction.objectStore(META_STORE));
+  const currentWeekStart = current && getWeekStart(new Date(current.lastResetDate), weekStartsOn).getTime();
+  const archivedWeeks = new Set(await requestToPromise(weeks.getAllKeys()));
+
+  put.forEach(session => {
+    const weekStart = getWeekStart(new Date(session.startTime), weekStartsOn);
+    if (weekStart.getTime() === currentWeekStart) {
+      sessions.put(toSessionRecord(session, current.lastResetDate));
+      return;
+    }
+
+    const key = weekStart.toISOString();
+    if (!archivedWeeks.has(key)) {
+      weeks.put(createWeekRecord(weekStart, settings));
+      archivedWeeks.add(key);
+    }
+    sessions.put(toSessionRecord(session, key));
+  });
+};
+
+// Writes sessions from an import, filing each day's portion under the week it
+// falls in
+export const importSessions = async (put: WorkSession[], remove: string[], settings: TrackerSettings) => {
+  const db = await getDatabase();
+  const transaction = db.transaction([SESSIONS_STORE, WEEKS_STORE, META_STORE], "readwrite");
+  const sessions = transaction.objectStore(SESSIONS_STORE);
+  remove.forEach(id => sessions.delete(id));
+  await fileSessions(transaction, put.flatMap(splitSessionByDay), settings);
+
+  await transactionDone(transaction);
+  notifyWeekChanged();
+};
+
+// Changing the first day of the week moves the current week's boundary
+// rather than ending it: sessions from the new week start on stay current,
+// and any before it are filed under the weeks they now fall in, the way an
+// import files them. Resolves to the week as it is saved afterwards.
+export const realignCurrentWeek = async (settings: TrackerSettings) => {
+  const db = await getDatabase();
+  const weekStartsOn = getWeekStartsOn(settings);
+  const transaction = db.transaction([SESSIONS_STORE, WEEKS_STORE, META_STORE], "readwrite");
+  const sessions = transaction.objectStore(SESSIONS_STORE);
+  const weeks = transaction.objectStore(WEEKS_STORE);
+  const meta = transaction.objectStore(META_STORE);
+  const current = await readCurrentWeek(meta);
+  const lastResetDate = getWeekStart(new Date(), weekStartsOn).toISOString();
+
+  // Another tab may have realigned it already
+  const moved = current && current.lastResetDate !== lastResetDate;
+  if (moved) {
+    const [records, weekKeys] = await Promise.all([
+      requestToPromise(sessions.index("weekStart").getAll(current.lastResetDate) as IDBRequest<SessionRecord[]>),
+      requestToPromise(weeks.getAllKeys()),
+    ]);
+    const archivedWeeks = new Set(weekKeys);
+
+    dropInvalid(sessionRecordSchema, records, SESSIONS_STORE).forEach(record => {
+      const weekStart = getWeekStart(new Date(record.startTime), weekStartsOn);
+      const key = weekStart.toISOString() < lastResetDate ? weekStart.toISOString() : lastResetDate;
+      if (key !== lastResetDate && !archivedWeeks.has(key)) {
+        weeks.put(createWeekRecord(weekStart, settings));
+        archivedWeeks.add(key);
+      }
+      sessions.put({ ...record, weekStart: key });
+    });
+    const record: CurrentWeekRecord = { ...current, lastResetDate };
+    meta.put(record, CURRENT_WEEK_KEY);
+  }
+
+  await transactionDone(transaction);
+  if (moved) notifyWeekChanged();
+  return loadWeek();
+};
+
+// Everything kept in IndexedDB, as stored
+export interface DatabaseDump {
+  currentWeek: CurrentWeekRecord | null;
+  weeks: WeekRecord[];
+  sessions: SessionRecord[];
+}
+
+export const dumpDatabase = async (): Promise<DatabaseDump> => {
+  const db = await getDatabase();
+  const transaction = db.transaction([SESSIONS_STORE, WEEKS_STORE, META_STORE]);
+  const [currentWeek, weeks, sessions] = await Promise.all([
+    readCurrentWeek(transaction.objectStore(META_STORE)),
+    requestToPromise(transaction.objectStore(WEEKS_STORE).getAll() as IDBRequest<WeekRecord[]>),
+    requestToPromise(transaction.objectStore(SESSIONS_STORE).getAll() as IDBRequest<SessionRecord[]>),
+  ]);
+  return {
+    currentWeek: currentWeek ?? null,
+    weeks: dropInvalid(weekRecordSchema, weeks, WEEKS_STORE),
+    sessions: dropInvalid(sessionRecordSchema, sessions, SESSIONS_STORE),
+  };
+};
+
+// The sessions a merge must not overlap: those tracked here and the one
+// running now
+const loadMergeTargets = async (transaction: IDBTransaction) => {
+  const [existing, current] = await Promise.all([
+    requestToPromise(transaction.objectStore(SESSIONS_STORE).getAll() as IDBRequest<SessionRecord[]>),
+    requestToPromise(
+      transaction.objectStore(META_STORE).get(CURRENT_WEEK_KEY) as IDBRequest<CurrentWeekRecord | undefined>,
+    ),
+  ]);
+  return current?.activeSession
+    ? [...existing, createSession(new Date(current.activeSession.startTime), new Date())]
+    : existing;
+};
+
+// How many of the dump's sessions a merge would skip for sharing time with
+// sessions tracked here
+export const countMergeOverlaps = async (dump: DatabaseDump) => {
+  const db = await getDatabase();
+  const existing = await loadMergeTargets(db.transaction([SESSIONS_STORE, META_STORE]));
+  return mergeSessions(dump.sessions, existing).overlapping.length;
+};
+
+// "replace" wipes the database first; "merge" only adds archived weeks and
+// sessions that are not there yet and leaves the current week alone. The
+// sessions of the backup's own current week have no week record to be found
+// under, so they are filed like an import. Merged sessions that overlap
+// tracked time are skipped rather than counted twice; resolves to how many
+// were skipped.
+export const restoreDatabase = async (dump: DatabaseDump, mode: "replace" | "merge", settings: TrackerSettings) => {
+  const db = await getDatabase();
+  const transaction = db.transaction([SESSIONS_STORE, WEEKS_STORE, META_STORE], "readwrite");
+  const sessions = transaction.objectStore(SESSIONS_STORE);
+  const weeks = transaction.objectStore(WEEKS_STORE);
+  const meta = transaction.objectStore(META_STORE);
+  let skipped = 0;
+
+  if (mode === "replace") {
+    [sessions, weeks, meta].forEach(store => store.clear());
+    if (dump.currentWeek) meta.put(dump.currentWeek, CURRENT_WEEK_KEY);
+    dump.weeks.forEach(week => weeks.put(week));
+    dump.sessions.forEach(session => sessions.put(session));
+  } else {
+    const [weekKeys, existing] = await Promise.all([
+      requestToPromise(weeks.getAllKeys()),
+      loadMergeTargets(transaction),
+    ]);
+    const knownWeeks = new Set(weekKeys);
+    const { added, overlapping } = mergeSessions(dump.sessions, existing);
+    const isCurrent = (session: SessionRecord) => session.weekStart === dump.currentWeek?.lastResetDate;
+    dump.weeks.filter(week => !knownWeeks.has(week.weekStart)).forEach(week => weeks.put(week));
+    added.filter(session => !isCurrent(session)).forEach(session => sessions.put(session));
+    await fileSessions(transaction, added.filter(isCurrent).map(fromSessionRecord), settings);
+    skipped = overlapping.length;
+  }
+
+  await transactionDone(transaction);
+  notifyWeekChanged();
+  return skipped;
+};
+
+export const loadAllSessions = () => loadSessionsBetween("0000-01-01", "9999-12-31");
+
+// Archived weeks, newest first
+export const loadHistory = async (): Promise<ArchivedWeek[]> => {
+  const db = await getDatabase();
+  const weeks = await requestToPromise(
+    db.transaction(WEEKS_STORE).objectStore(WEEKS_STORE).getAll() as IDBRequest<WeekRecord[]>,
+  );
+
+  const history = await Promise.all(
+    dropInvalid(weekRecordSchema, weeks, WEEKS_STORE).map(async week => {
+      const entries = groupSessionsByDay(await loadWeekSessions(db, week.weekStart));
+      return { ...week, entries, totalSeconds: entries.reduce((sum, e) => sum + e.totalSeconds, 0) };
+    }),
+  );
+  return history.sort((a, b) => b.weekStart.localeCompare(a.weekStart));
+};
@@ -0,0 +1,29 @@
+import type { WeekData } from "@/types/tracker";
+
+export const formatTime = (totalMinutes: number) => {
+  const hrs = Math.floor(totalMinutes / 60);
+  const mins = totalMinutes % 60;
+  return `${hrs}h ${mins}m`;
+};
+
+// Durations are kept to the second and only rounded down to whole minutes for
+// display; anything shorter than a minute is shown in seconds.
+export const formatDuration = (totalSeconds: number) =>
+  totalSeconds > 0 && totalSeconds < 60 ? `${totalSeconds}s` : formatTime(Math.floor(totalSeconds / 60));
+
+// The running timer, to the second
+export const formatTimer = (totalSeconds: number) => {
+  const hrs = Math.floor(totalSeconds / 3600);
+  const mins = Math.floor((totalSeconds % 3600) / 60);
+  const secs = totalSeconds % 60;
+  return `${hrs}h ${mins}m ${secs}s`;
+};
+
+export const formatClock = (date: Date) =>
+  date.toLocaleTimeString("en-US", { hour: "2-digit", minute: "2-digit" });
+
+export const createEmptyWeek = (weekStart: Date): WeekData => ({
+  totalSeconds: 0,
+  entries: [],
+  lastResetDate: weekStart.toISOString(),
+});
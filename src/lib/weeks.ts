@@ -0,0 +1,13 @@
+import { endOfWeek, isBefore, startOfWeek } from "date-fns";
+import type { WeekStartsOn } from "@/lib/settings";
+
+export const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+export const getWeekStart = (date: Date, weekStartsOn: WeekStartsOn) => startOfWeek(date, { weekStartsOn });
+
+export const getWeekEnd = (date: Date, weekStartsOn: WeekStartsOn) => endOfWeek(date, { weekStartsOn });
+
+// True once `now` falls in a later calendar week than the one that began at
+// `weekStart`, however many weeks have passed since the app was last open.
+export const hasWeekEnded = (weekStart: Date, now: Date, weekStartsOn: WeekStartsOn) =>
+  isBefore(getWeekStart(weekStart, weekStartsOn), getWeekStart(now, weekStartsOn));
@@ -0,0 +1,151 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { parseISO, subDays } from "date-fns";
+import { ArrowLeft, CheckCircle2 } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toDateKey } from "@/lib/settings";
+import { groupSessionsByDay } from "@/lib/sessions";
+import { loadSessionsBetween, loadSettings } from "@/lib/storage";
+import {
+  ComplianceRule,
+  checkCompliance,
+  getComplianceName,
+  getComplianceSettings,
+  hasComplianceRules,
+} from "@/lib/compliance";
+
+const RULE_LABELS: Record<ComplianceRule, string> = {
+  break: "Break",
+  maxDaily: "Daily maximum",
+  rest: "Rest period",
+};
+
+const Compliance = () => {
+  const [compliance] = useState(() => getComplianceSettings(loadSettings()));
+  const [range, setRange] = useState(() => ({
+    from: toDateKey(subDays(new Date(), 27)),
+    to: toDateKey(new Date()),
+  }));
+
+  // The day before the range is loaded too, for the rest period of its first day
+  const loadFrom = toDateKey(subDays(parseISO(range.from), 1));
+  const { data: sessions = [], isLoading } = useQuery({
+    queryKey: ["sessions", loadFrom, range.to],
+    queryFn: () => loadSessionsBetween(loadFrom, range.to),
+    enabled: range.from <= range.to,
+  });
+
+  const entries = groupSessionsByDay(sessions);
+  const violations = checkCompliance(entries, compliance.rules);
+  const days = entries.filter(entry => toDateKey(new Date(entry.sessions[0].startTime)) >= range.from);
+  const rows = days.flatMap(entry => (violations.get(entry.date) ?? []).map(violation => ({ entry, violation })));
+  const daysWithViolations = days.filter(entry => violations.get(entry.date)?.length).length;
+
+  const setBound = (bound: "from" | "to", value: string) => {
+    if (value) setRange({ ...range, [bound]: value });
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-4 md:p-8">
+      <div className="mx-auto max-w-4xl space-y-6 animate-fade-in">
+        <header className="space-y-4 animate-slide-up">
+          <Button asChild variant="ghost" size="sm">
+            <Link to="/">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to tracker
+            </Link>
+          </Button>
+          <div className="text-center space-y-2">
+            <h1 className="text-4xl md:text-5xl font-bold bg-gradient-primary bg-clip-text text-transparent">
+              Compliance Report
+            </h1>
+            <p className="text-muted-foreground">
+              Working time rules: {getComplianceName(compliance)} ·{" "}
+              <Link to="/settings" className="underline underline-offset-4">
+                Change
+              </Link>
+            </p>
+          </div>
+        </header>
+
+        <Card className="p-6 shadow-card border-border/50 animate-slide-up" style={{ animationDelay: "0.1s" }}>
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="compliance-from">From</Label>
+              <Input
+                id="compliance-from"
+                type="date"
+                value={range.from}
+                max={range.to}
+                onChange={e => setBound("from", e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="compliance-to">To</Label>
+              <Input
+                id="compliance-to"
+                type="date"
+                value={range.to}
+                min={range.from}
+                onChange={e => setBound("to", e.target.value)}
+              />
+            </div>
+          </div>
+        </Card>
+
+        {!isLoading && (
+          <Card className="p-6 shadow-card border-border/50 animate-slide-up" style={{ animationDelay: "0.2s" }}>
+            <div className="mb-4 flex flex-wrap items-center justify-between gap-2">
+              <h2 className="text-lg font-semibold">Violations</h2>
+              <span className="text-sm text-muted-foreground">
+                {daysWithViolations} of {days.length} working {days.length === 1 ? "day" : "days"} affected
+              </span>
+            </div>
+
+            {!hasComplianceRules(compliance) ? (
+              <p className="text-sm text-muted-foreground">
+                No working time rules are set up. Pick a country or enter your own rules in Settings.
+              </p>
+            ) : rows.length === 0 ? (
+              <div className="flex items-center gap-2 p-4 rounded-lg bg-success/10 border border-success/20">
+                <CheckCircle2 className="h-5 w-5 text-success flex-shrink-0" />
+                <p className="text-sm font-medium text-success">No violations in this range.</p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Day</TableHead>
+                    <TableHead>Rule</TableHead>
+                    <TableHead>Details</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map(({ entry, violation }) => (
+                    <TableRow key={`${entry.date}-${violation.rule}`}>
+                      <TableCell className="whitespace-nowrap">{entry.displayDate}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className="whitespace-nowrap">
+                          {RULE_LABELS[violation.rule]}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">{violation.message}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Compliance;
@@ -0,0 +1,263 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link } from "react-router-dom";
+import { toast } from "sonner";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { ArrowLeft, Calendar, Plus } from "lucide-react";
+import DailyEntryCard from "@/components/tracker/DailyEntryCard";
+import SessionDialog from "@/components/tracker/SessionDialog";
+import SessionFilterBar from "@/components/tracker/SessionFilterBar";
+import type { WorkSession } from "@/types/tracker";
+import { formatClock, formatDuration, formatTime } from "@/lib/tracker";
+import { getProjects } from "@/lib/projects";
+import { checkCompliance, getComplianceSettings } from "@/lib/compliance";
+import { getBillableSeconds, getRoundingSettings, isRoundingEnabled } from "@/lib/rounding";
+import { formatMoney, getCurrency, getRates, getWeekEarnings } from "@/lib/rates";
+import { formatBalance, getWeekBalanceSeconds } from "@/lib/overtime";
+import { formatLeaveDay, getOvertimeThresholdMinutes, getWeekLeave } from "@/lib/leave";
+import { toDateKey } from "@/lib/settings";
+import { SessionFilter, collectTags, isFilterActive, matchesSessionFilter } from "@/lib/notes";
+import { SessionDetails, SessionRef, createSession, getSessionSeconds } from "@/lib/sessions";
+import { importSessions, loadHistory, loadSettings, reportStorageError } from "@/lib/storage";
+
+const formatWeekRange = (weekStart: string, weekEnd: string) => {
+  const options: Intl.DateTimeFormatOptions = { month: 'short', day: 'numeric', year: 'numeric' };
+  return `${new Date(weekStart).toLocaleDateString('en-US', options)} – ${new Date(weekEnd).toLocaleDateString('en-US', options)}`;
+};
+
+const History = () => {
+  const { data: history = [], isLoading } = useQuery({ queryKey: ["history"], queryFn: loadHistory });
+  const [selected, setSelectedWeek] = useState<string>();
+  const [settings] = useState(loadSettings);
+  const projects = getProjects(settings);
+  const [filter, setFilter] = useState<SessionFilter>({ query: "" });
+  const [sessionDialogOpen, setSessionDialogOpen] = useState(false);
+  const [editingSession, setEditingSession] = useState<{ ref: SessionRef; session: WorkSession }>();
+  const [pendingDelete, setPendingDelete] = useState<WorkSession>();
+  const queryClient = useQueryClient();
+
+  const selectedWeek = selected ?? history[0]?.weekStart;
+  const week = history.find(w => w.weekStart === selectedWeek);
+  const sessions = week ? week.entries.flatMap(entry => entry.sessions) : [];
+  const matchesFilter = (session: WorkSession) => matchesSessionFilter(session, filter, projects);
+  const visibleEntries =
+    week && isFilterActive(filter)
+      ? week.entries.filter(entry => entry.sessions.some(matchesFilter))
+      : (week?.entries ?? []);
+  const violations = checkCompliance(week?.entries ?? [], getComplianceSettings(settings).rules);
+  const rounding = getRoundingSettings(settings);
+  const currency = getCurrency(settings);
+  const leave =
+    week &&
+    getWeekLeave(settings, toDateKey(new Date(week.weekStart)), toDateKey(new Date(week.weekEnd)), week.weeklyTargetMinutes);
+  const earnings =
+    week && getRates(settings).length > 0
+      ? getWeekEarnings(week.entries, settings, getOvertimeThresholdMinutes(leave))
+      : undefined;
+  // Time off in lieu and leave taken during the week count toward its target
+  const balanceSeconds = week ? getWeekBalanceSeconds(week, settings) : 0;
+  const progressPercentage = !leave
+    ? 0
+    : leave.targetSeconds === 0
+      ? 100
+      : Math.min(100, ((balanceSeconds + leave.targetSeconds) / leave.targetSeconds) * 100);
+
+  // Sessions of archived weeks are written the way an import writes them, so
+  // each portion is filed under the week it falls in
+  const writeSessions = async (put: WorkSession[], remove: string[]) => {
+    try {
+      await importSessions(put, remove, settings);
+    } catch (error) {
+      reportStorageError(error);
+      return false;
+    }
+    queryClient.invalidateQueries({ queryKey: ["history"] });
+    return true;
+  };
+
+  const handleAddSession = () => {
+    setEditingSession(undefined);
+    setSessionDialogOpen(true);
+  };
+
+  const handleEditSession = (ref: SessionRef) => {
+    const entry = week.entries.find(e => e.date === ref.date);
+    setEditingSession({ ref, session: entry.sessions[ref.index] });
+    setSessionDialogOpen(true);
+  };
+
+  const handleSaveSession = async (start: Date, end: Date, details: SessionDetails, ref?: SessionRef) => {
+    // An edited session keeps whichever of its breaks still fall inside it
+    const edited = ref ? editingSession?.session : undefined;
+    const session = { ...createSession(start, end, edited?.breaks), ...details };
+    if (!(await writeSessions([session], edited ? [edited.id] : []))) return;
+    toast.success(ref ? "Session updated!" : `Session added! Logged ${formatDuration(getSessionSeconds(session))}`, {
+      description: `${formatClock(start)} - ${formatClock(end)}`,
+    });
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!pendingDelete) return;
+    const { id } = pendingDelete;
+    setPendingDelete(undefined);
+    if (await writeSessions([], [id])) toast.info("Session deleted.");
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-4 md:p-8">
+      <div className="mx-auto max-w-4xl space-y-6 animate-fade-in">
+        <header className="space-y-4 animate-slide-up">
+          <Button asChild variant="ghost" size="sm">
+            <Link to="/">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to tracker
+            </Link>
+          </Button>
+          <div className="text-center space-y-2">
+            <h1 className="text-4xl md:text-5xl font-bold bg-gradient-primary bg-clip-text text-transparent">
+              Past Weeks
+            </h1>
+            <p className="text-muted-foreground">Browse the weeks you have already completed</p>
+          </div>
+        </header>
+
+        {isLoading ? null : history.length === 0 ? (
+          <Card className="p-6 shadow-card border-border/50 animate-slide-up" style={{ animationDelay: "0.1s" }}>
+            <div className="text-center py-8 text-muted-foreground">
+              <Calendar className="h-12 w-12 mx-auto mb-3 opacity-50" />
+              <p>No past weeks yet. Finished weeks will appear here after the weekly reset.</p>
+            </div>
+          </Card>
+        ) : (
+          <Card className="p-6 shadow-card border-border/50 animate-slide-up" style={{ animationDelay: "0.1s" }}>
+            <div className="space-y-4">
+              <Select
+                value={selectedWeek}
+                onValueChange={weekStart => {
+                  setSelectedWeek(weekStart);
+                  setFilter({ ...filter, tag: undefined });
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a week" />
+                </SelectTrigger>
+                <SelectContent>
+                  {history.map(w => (
+                    <SelectItem key={w.weekStart} value={w.weekStart}>
+                      {formatWeekRange(w.weekStart, w.weekEnd)} · {formatDuration(w.totalSeconds)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              {week && (
+                <>
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm text-muted-foreground">
+                        {formatDuration(week.totalSeconds)} of{" "}
+                        {leave.targetSeconds === week.weeklyTargetMinutes * 60
+                          ? formatTime(week.weeklyTargetMinutes)
+                          : formatDuration(leave.targetSeconds)}
+                        {isRoundingEnabled(rounding) &&
+                          ` · ${formatDuration(getBillableSeconds(week.entries, rounding))} billable`}
+                        {earnings && ` · ${formatMoney(earnings.total, currency)} earned`}
+                        {week.imported
+                          ? " · imported, not counted as overtime"
+                          : ` · ${formatBalance(balanceSeconds)} overtime`}
+                      </span>
+                      <span className="text-sm font-medium text-muted-foreground">
+                        {progressPercentage.toFixed(1)}%
+                      </span>
+                    </div>
+                    <Progress value={progressPercentage} className="h-3" />
+                    {leave.days.length > 0 && (
+                      <p className="text-sm text-muted-foreground">
+                        Leave: {leave.days.map(formatLeaveDay).join(", ")}
+                      </p>
+                    )}
+                  </div>
+
+                  <div className="space-y-4">
+                    <div className="flex flex-wrap items-start gap-2">
+                      <div className="flex-1">
+                        <SessionFilterBar filter={filter} onFilterChange={setFilter} tags={collectTags(sessions)} />
+                      </div>
+                      <Button variant="outline" size="sm" onClick={handleAddSession}>
+                        <Plus className="h-4 w-4 mr-2" />
+                        Add Session
+                      </Button>
+                    </div>
+                    {visibleEntries.length === 0 && (
+                      <p className="text-center py-4 text-sm text-muted-foreground">
+                        No sessions this week match your search.
+                      </p>
+                    )}
+                    {visibleEntries.map(entry => (
+                      <DailyEntryCard
+                        key={entry.date}
+                        entry={entry}
+                        dailyMinimumMinutes={week.dailyMinimumMinutes}
+                        projects={projects}
+                        violations={violations.get(entry.date)}
+                        rounding={rounding}
+                        earnings={earnings}
+                        currency={currency}
+                        matches={matchesFilter}
+                        onEditSession={index => handleEditSession({ date: entry.date, index })}
+                        onDeleteSession={index => setPendingDelete(entry.sessions[index])}
+                      />
+                    ))}
+                  </div>
+                </>
+              )}
+            </div>
+          </Card>
+        )}
+      </div>
+
+      {week && (
+        <SessionDialog
+          open={sessionDialogOpen}
+          onOpenChange={setSessionDialogOpen}
+          weekData={week}
+          weekStart={new Date(week.weekStart)}
+          weekEnd={new Date(week.weekEnd)}
+          editing={editingSession}
+          projects={projects}
+          onSave={handleSaveSession}
+        />
+      )}
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={open => !open && setPendingDelete(undefined)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this session?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Its time will be removed from this week's totals and overtime. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirmDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default History;
@@ -0,0 +1,387 @@
+import { ChangeEvent, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { endOfDay, format, parseISO } from "date-fns";
+import { toast } from "sonner";
+import { ArrowLeft, Upload } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { formatClock, formatDuration } from "@/lib/tracker";
+import { getWeekStartsOn, toDateKey } from "@/lib/settings";
+import { getWeekEnd, getWeekStart } from "@/lib/weeks";
+import { parseIcsEvents } from "@/lib/ical";
+import { getSessionSeconds } from "@/lib/sessions";
+import { importSessions, loadAllSessions, loadSettings, loadWeek, reportStorageError } from "@/lib/storage";
+import {
+  ColumnMapping,
+  ConflictResolution,
+  DATE_FORMATS,
+  ImportCandidate,
+  eventsToCandidates,
+  findConflicts,
+  guessColumnMapping,
+  parseCsv,
+  parseJsonSessions,
+  resolveImport,
+  rowsToCandidates,
+} from "@/lib/import";
+
+const NO_DATE_COLUMN = "none";
+
+const RESOLUTIONS: { value: ConflictResolution; label: string }[] = [
+  { value: "skip", label: "Skip" },
+  { value: "merge", label: "Merge" },
+  { value: "replace", label: "Replace" },
+];
+
+const formatRange = (startTime: string, endTime: string) =>
+  `${formatClock(new Date(startTime))} - ${formatClock(new Date(endTime))}`;
+
+const readCalendar = (text: string, from: string, to: string) => {
+  try {
+    return parseIcsEvents(text, parseISO(from), endOfDay(parseISO(to)));
+  } catch (error) {
+    console.error("Could not read calendar import:", error);
+    return [];
+  }
+};
+
+const Import = () => {
+  const navigate = useNavigate();
+  const [fileName, setFileName] = useState<string>();
+  const [csvRows, setCsvRows] = useState<string[][]>();
+  const [mapping, setMapping] = useState<ColumnMapping>();
+  const [jsonCandidates, setJsonCandidates] = useState<ImportCandidate[]>();
+  const [calendarText, setCalendarText] = useState<string>();
+  const [calendarRange, setCalendarRange] = useState(() => {
+    const weekStartsOn = getWeekStartsOn(loadSettings());
+    return {
+      from: toDateKey(getWeekStart(new Date(), weekStartsOn)),
+      to: toDateKey(getWeekEnd(new Date(), weekStartsOn)),
+    };
+  });
+  const [resolutions, setResolutions] = useState<Record<number, ConflictResolution>>({});
+  const [excluded, setExcluded] = useState<Set<number>>(new Set());
+  const [isImporting, setIsImporting] = useState(false);
+
+  const { data: existing = [] } = useQuery({ queryKey: ["sessions"], queryFn: loadAllSessions });
+  const { data: week } = useQuery({ queryKey: ["week"], queryFn: loadWeek });
+
+  const [headers, ...dataRows] = csvRows ?? [[]];
+  const parsed =
+    calendarText !== undefined
+      ? eventsToCandidates(readCalendar(calendarText, calendarRange.from, calendarRange.to))
+      : jsonCandidates ?? (mapping ? rowsToCandidates(dataRows, mapping) : []);
+  // Calendar events that clash with tracked time are skipped, not merged
+  const candidates = findConflicts(parsed, existing, week?.activeSession, calendarText === undefined);
+
+  const valid = candidates.filter(c => c.session && !c.error);
+  const conflicts = valid.filter(c => c.overlaps.length > 0);
+  const selected = candidates.filter(c => !excluded.has(c.row));
+  const { put, remove } = resolveImport(selected, resolutions);
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const text = await file.text();
+    setFileName(file.name);
+    setResolutions({});
+    setExcluded(new Set());
+
+    if (file.name.toLowerCase().endsWith(".ics")) {
+      if (!text.includes("BEGIN:VCALENDAR")) {
+        toast.error("This file is not an iCalendar file.");
+        return;
+      }
+      setCalendarText(text);
+      setJsonCandidates(undefined);
+      setCsvRows(undefined);
+      return;
+    }
+
+    if (file.name.toLowerCase().endsWith(".json")) {
+      try {
+        setJsonCandidates(parseJsonSessions(text));
+        setCsvRows(undefined);
+        setCalendarText(undefined);
+      } catch (error) {
+        console.error("Could not read JSON import:", error);
+        toast.error("This JSON file does not contain any sessions.", {
+          description: "Use a backup from this app or a list of { startTime, endTime } objects.",
+        });
+      }
+      return;
+    }
+
+    const rows = parseCsv(text);
+    if (rows.length < 2) {
+      toast.error("This CSV file has no rows to import.");
+      return;
+    }
+    setJsonCandidates(undefined);
+    setCalendarText(undefined);
+    setCsvRows(rows);
+    setMapping(guessColumnMapping(rows[0]));
+  };
+
+  const toggleRow = (row: number, include: boolean) => {
+    const next = new Set(excluded);
+    if (include) next.delete(row);
+    else next.add(row);
+    setExcluded(next);
+  };
+
+  const setCalendarBound = (bound: "from" | "to", value: string) => {
+    if (!value) return;
+    setCalendarRange({ ...calendarRange, [bound]: value });
+    setExcluded(new Set());
+  };
+
+  const setAllResolutions = (resolution: ConflictResolution) =>
+    setResolutions(Object.fromEntries(conflicts.map(c => [c.row, resolution])));
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      await importSessions(put, remove, loadSettings());
+    } catch (error) {
+      reportStorageError(error);
+      setIsImporting(false);
+      return;
+    }
+
+    toast.success(`Imported ${put.length} ${put.length === 1 ? "session" : "sessions"}!`, {
+      description: remove.length > 0 ? `${remove.length} existing sessions were merged or replaced.` : undefined,
+    });
+    navigate("/");
+  };
+
+  const columnSelect = (label: string, value: number | undefined, onChange: (index: number | undefined) => void, optional = false) => (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      <Select
+        value={value === undefined ? NO_DATE_COLUMN : String(value)}
+        onValueChange={v => onChange(v === NO_DATE_COLUMN ? undefined : Number(v))}
+      >
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {optional && <SelectItem value={NO_DATE_COLUMN}>None (start and end include the date)</SelectItem>}
+          {headers.map((header, index) => (
+            <SelectItem key={index} value={String(index)}>
+              {header || `Column ${index + 1}`}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-background p-4 md:p-8">
+      <div className="mx-auto max-w-4xl space-y-6 animate-fade-in">
+        <header className="space-y-4 animate-slide-up">
+          <Button asChild variant="ghost" size="sm">
+            <Link to="/">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to tracker
+            </Link>
+          </Button>
+          <div className="text-center space-y-2">
+            <h1 className="text-4xl md:text-5xl font-bold bg-gradient-primary bg-clip-text text-transparent">
+              Import Sessions
+            </h1>
+            <p className="text-muted-foreground">Bring in hours from spreadsheets, other trackers, calendars or a backup</p>
+          </div>
+        </header>
+
+        <Card className="p-6 shadow-card border-border/50 animate-slide-up" style={{ animationDelay: "0.1s" }}>
+          <div className="space-y-2">
+            <Label htmlFor="import-file">CSV, JSON or calendar (.ics) file</Label>
+            <Input
+              id="import-file"
+              type="file"
+              accept=".csv,.json,.ics,text/csv,application/json,text/calendar"
+              onChange={handleFile}
+            />
+            {fileName && <p className="text-xs text-muted-foreground">Loaded {fileName}</p>}
+          </div>
+        </Card>
+
+        {csvRows && mapping && (
+          <Card className="p-6 shadow-card border-border/50 animate-slide-up">
+            <h2 className="text-lg font-semibold mb-4">Columns</h2>
+            <div className="grid gap-4 md:grid-cols-4">
+              {columnSelect("Date", mapping.date, date => setMapping({ ...mapping, date }), true)}
+              {columnSelect("Start", mapping.start, start => setMapping({ ...mapping, start }))}
+              {columnSelect("End", mapping.end, end => setMapping({ ...mapping, end }))}
+              <div className="space-y-2">
+                <Label>Date format</Label>
+                <Select
+                  value={mapping.dateFormat}
+                  onValueChange={dateFormat => setMapping({ ...mapping, dateFormat })}
+                  disabled={mapping.date === undefined}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DATE_FORMATS.map(dateFormat => (
+                      <SelectItem key={dateFormat} value={dateFormat}>
+                        {dateFormat}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </Card>
+        )}
+
+        {calendarText !== undefined && (
+          <Card className="p-6 shadow-card border-border/50 animate-slide-up">
+            <h2 className="text-lg font-semibold mb-1">Events</h2>
+            <p className="text-sm text-muted-foreground mb-4">
+              Timed events in this range are listed below. Untick the ones that were not work; all-day events are
+              left out.
+            </p>
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="calendar-from">From</Label>
+                <Input
+                  id="calendar-from"
+                  type="date"
+                  value={calendarRange.from}
+                  onChange={e => setCalendarBound("from", e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="calendar-to">To</Label>
+                <Input
+                  id="calendar-to"
+                  type="date"
+                  value={calendarRange.to}
+                  onChange={e => setCalendarBound("to", e.target.value)}
+                />
+              </div>
+            </div>
+            {candidates.length === 0 && (
+              <p className="mt-4 text-sm text-muted-foreground">No timed events fall in this range.</p>
+            )}
+          </Card>
+        )}
+
+        {candidates.length > 0 && (
+          <Card className="p-6 shadow-card border-border/50 animate-slide-up">
+            <div className="mb-4 flex flex-wrap items-center justify-between gap-2">
+              <h2 className="text-lg font-semibold">Preview</h2>
+              {conflicts.length > 0 && (
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <span>All {conflicts.length} overlaps:</span>
+                  {RESOLUTIONS.map(r => (
+                    <Button key={r.value} variant="outline" size="sm" onClick={() => setAllResolutions(r.value)}>
+                      {r.label}
+                    </Button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10" />
+                  <TableHead>Row</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Time</TableHead>
+                  <TableHead>Duration</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {candidates.map(candidate => (
+                  <TableRow key={candidate.row}>
+                    <TableCell>
+                      <Checkbox
+                        checked={!excluded.has(candidate.row)}
+                        onCheckedChange={checked => toggleRow(candidate.row, checked === true)}
+                        disabled={!candidate.session || !!candidate.error}
+                        aria-label={`Import row ${candidate.row}`}
+                      />
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">{candidate.row}</TableCell>
+                    {candidate.session ? (
+                      <>
+                        <TableCell>
+                          {format(new Date(candidate.session.startTime), "EEE, MMM d yyyy")}
+                          {candidate.label && <p className="text-xs text-muted-foreground">{candidate.label}</p>}
+                          {candidate.warning && <p className="text-xs text-warning">{candidate.warning}</p>}
+                        </TableCell>
+                        <TableCell>{formatRange(candidate.session.startTime, candidate.session.endTime)}</TableCell>
+                        <TableCell>{formatDuration(getSessionSeconds(candidate.session))}</TableCell>
+                      </>
+                    ) : (
+                      <TableCell colSpan={3} className="text-muted-foreground">—</TableCell>
+                    )}
+                    <TableCell>
+                      {candidate.error ? (
+                        <Badge variant="destructive">{candidate.error}</Badge>
+                      ) : candidate.overlaps.length === 0 ? (
+                        <Badge variant="secondary">New</Badge>
+                      ) : (
+                        <div className="space-y-1">
+                          <p className="text-xs text-warning">
+                            Overlaps {candidate.overlaps.map(s => formatRange(s.startTime, s.endTime)).join(", ")}
+                          </p>
+                          <Select
+                            value={resolutions[candidate.row] ?? "skip"}
+                            onValueChange={value =>
+                              setResolutions({ ...resolutions, [candidate.row]: value as ConflictResolution })
+                            }
+                          >
+                            <SelectTrigger className="h-8 w-32">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {RESOLUTIONS.map(r => (
+                                <SelectItem key={r.value} value={r.value}>
+                                  {r.label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <div className="mt-4 flex flex-wrap items-center justify-between gap-2">
+              <p className="text-sm text-muted-foreground">
+                {put.length} to import · {candidates.length - valid.length}{" "}
+                {calendarText === undefined ? "invalid" : "skipped"}
+                {remove.length > 0 && ` · ${remove.length} existing to merge or replace`}
+              </p>
+              <Button onClick={handleImport} disabled={put.length === 0 || isImporting}>
+                <Upload className="h-4 w-4 mr-2" />
+                Import {put.length} {put.length === 1 ? "session" : "sessions"}
+              </Button>
+            </div>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Import;
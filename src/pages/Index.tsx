@@ -1,44 +1,97 @@
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { toast } from "sonner";
-import { Clock, Target, Calendar, CheckCircle2, AlertCircle, Play, Square, Timer } from "lucide-react";
-
-interface WorkSession {
-  startTime: string;
-  endTime: string;
-  duration: number; // in minutes
-}
-
-interface DailyEntry {
-  date: string;
-  displayDate: string;
-  sessions: WorkSession[];
-  totalMinutes: number;
-}
-
-interface WeekData {
-  totalMinutes: number;
-  entries: DailyEntry[];
-  lastResetDate: string;
-  activeSession?: {
-    startTime: string;
-  };
-}
-
-const WEEKLY_TARGET_MINUTES = 45 * 60; // 45 hours in minutes
-const DAILY_MINIMUM_MINUTES = 6 * 60; // 6 hours in minutes
-const STORAGE_KEY = "weeklyWorkHours";
+import { Link } from "react-router-dom";
+import { Clock, Target, Calendar, CheckCircle2, AlertCircle, Play, Square, Timer, History, Settings, Plus, Upload, FolderKanban, ArrowLeftRight, Coffee, ShieldCheck, Wallet, FileText, Scale, Palmtree } from "lucide-react";
+import DailyEntryCard from "@/components/tracker/DailyEntryCard";
+import ExportDialog from "@/components/tracker/ExportDialog";
+import ProjectBreakdown from "@/components/tracker/ProjectBreakdown";
+import ProjectLabel from "@/components/tracker/ProjectLabel";
+import ProjectSelectItems from "@/components/tracker/ProjectSelectItems";
+import BreakList from "@/components/tracker/BreakList";
+import SessionFilterBar from "@/components/tracker/SessionFilterBar";
+import SessionNotes from "@/components/tracker/SessionNotes";
+import SessionDialog from "@/components/tracker/SessionDialog";
+import StaleSessionDialog from "@/components/tracker/StaleSessionDialog";
+import SwitchTaskDialog from "@/components/tracker/SwitchTaskDialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { addDays, differenceInSeconds } from "date-fns";
+import type { ActiveSession, WeekData, WorkSession } from "@/types/tracker";
+import { createEmptyWeek, formatClock, formatDuration, formatTime, formatTimer } from "@/lib/tracker";
+import { formatHours, getMaxSessionMinutes, getTargetsAt, getWeekStartsOn, toDateKey } from "@/lib/settings";
+import {
+  archiveWeek,
+  claimActiveSession,
+  importSessions,
+  loadHistory,
+  loadSettings,
+  loadWeek,
+  realignCurrentWeek,
+  releaseActiveSession,
+  reportStorageError,
+  saveWeekChanges,
+  subscribeToSettingsChanges,
+  subscribeToWeekChanges,
+  replaceActiveSession,
+} from "@/lib/storage";
+import { getWeekStart, hasWeekEnded } from "@/lib/weeks";
+import { checkCompliance, getComplianceSettings, hasComplianceRules } from "@/lib/compliance";
+import { getBillableSeconds, getRoundingSettings, isRoundingEnabled } from "@/lib/rounding";
+import { formatMoney, getCurrency, getRates, getWeekEarnings } from "@/lib/rates";
+import { formatBalance, getAdjustments, getOvertimeBalance, getTimeOffSeconds } from "@/lib/overtime";
+import { formatLeaveDay, getOvertimeThresholdMinutes, getWeekLeave } from "@/lib/leave";
+import { SessionFilter, collectTags, isFilterActive, matchesSessionFilter, toSessionNotes } from "@/lib/notes";
+import { NO_PROJECT, findProject, getActiveProjects, getProjectLabel, getProjectTotals, getProjects } from "@/lib/projects";
+import {
+  SessionDetails,
+  SessionRef,
+  addSession,
+  createSession,
+  finishActiveSession,
+  pauseActiveSession,
+  resumeActiveSession,
+  getSessionSeconds,
+  getStaleSessionReason,
+  removeSession,
+  replaceSession,
+  splitSessionAtWeek,
+} from "@/lib/sessions";
 
 const Index = () => {
-  const [weekData, setWeekData] = useState<WeekData>({
-    totalMinutes: 0,
-    entries: [],
-    lastResetDate: new Date().toISOString(),
-  });
+  const [settings, setSettings] = useState(loadSettings);
+  const [weekData, setWeekData] = useState<WeekData>(() =>
+    createEmptyWeek(getWeekStart(new Date(), getWeekStartsOn(settings))),
+  );
+  const [isLoaded, setIsLoaded] = useState(false);
+  const savedWeek = useRef<WeekData | null>(null);
+  const rollingOver = useRef(false);
   const [currentTime, setCurrentTime] = useState(new Date());
-  const [elapsedMinutes, setElapsedMinutes] = useState(0);
+  const [elapsedSeconds, setElapsedSeconds] = useState(0);
+  const [sessionDialogOpen, setSessionDialogOpen] = useState(false);
+  const [editingSession, setEditingSession] = useState<{ ref: SessionRef; session: WorkSession }>();
+  const [pendingDelete, setPendingDelete] = useState<SessionRef>();
+  const [dismissedStaleStart, setDismissedStaleStart] = useState<string>();
+  const [selectedProjectId, setSelectedProjectId] = useState(NO_PROJECT);
+  const [clockInNote, setClockInNote] = useState("");
+  const [clockInTags, setClockInTags] = useState("");
+  const [filter, setFilter] = useState<SessionFilter>({ query: "" });
+  const [switchDialogOpen, setSwitchDialogOpen] = useState(false);
+  const queryClient = useQueryClient();
+  const { data: history = [] } = useQuery({ queryKey: ["history"], queryFn: loadHistory });
 
   // Update current time and elapsed time every second
   useEffect(() => {
@@ -46,137 +99,367 @@ const Index = () => {
       setCurrentTime(new Date());
       
       if (weekData.activeSession) {
-        const start = new Date(weekData.activeSession.startTime);
-        const elapsed = Math.floor((Date.now() - start.getTime()) / 60000);
-        setElapsedMinutes(elapsed);
+        setElapsedSeconds(getSessionSeconds(finishActiveSession(weekData.activeSession, new Date())));
       }
     }, 1000);
 
     return () => clearInterval(timer);
   }, [weekData.activeSession]);
 
-  // Load data from localStorage and check for Monday reset
+  // Load saved data, then reload whenever another tab changes it; from then
+  // on only this tab's own changes are written back.
   useEffect(() => {
-    const loadData = () => {
-      const stored = localStorage.getItem(STORAGE_KEY);
-      if (stored) {
-        const data: WeekData = JSON.parse(stored);
-        
-        // Check if we need to reset (it's Monday and we haven't reset yet today)
-        const now = new Date();
-        const lastReset = new Date(data.lastResetDate);
-        
-        if (now.getDay() === 1 && lastReset.getDay() !== 1) {
-          // Reset for new week
-          const newData: WeekData = {
-            totalMinutes: 0,
-            entries: [],
-            lastResetDate: now.toISOString(),
-          };
-          setWeekData(newData);
-          localStorage.setItem(STORAGE_KEY, JSON.stringify(newData));
-          toast.info("New week started! Data has been reset.");
-        } else {
-          setWeekData(data);
-        }
-      }
-    };
+    const loadData = () =>
+      loadWeek()
+        .then(data => {
+          if (data) {
+            savedWeek.current = data;
+            setWeekData(data);
+          }
+          setIsLoaded(true);
+        })
+        .catch(reportStorageError);
 
     loadData();
-    
-    // Check for reset every minute
-    const interval = setInterval(loadData, 60000);
-    return () => clearInterval(interval);
-  }, []);
+    const unsubscribeWeek = subscribeToWeekChanges(() => {
+      loadData();
+      queryClient.invalidateQueries({ queryKey: ["history"] });
+    });
+    const unsubscribeSettings = subscribeToSettingsChanges(setSettings);
+    return () => {
+      unsubscribeWeek();
+      unsubscribeSettings();
+    };
+  }, [queryClient]);
+
+  // Roll over once a new calendar week starts, archiving the finished week;
+  // a running session carries over so it is not lost. A week that no longer
+  // starts on the first day of the week has had that setting changed, and is
+  // moved to the new boundary instead.
+  const weekStartsOn = getWeekStartsOn(settings);
+  const weekStart = getWeekStart(new Date(weekData.lastResetDate), weekStartsOn);
+  const isAligned = weekStart.getTime() === new Date(weekData.lastResetDate).getTime();
+  const weekEnded = isLoaded && isAligned && hasWeekEnded(weekStart, currentTime, weekStartsOn);
 
-  // Save to localStorage whenever data changes
   useEffect(() => {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(weekData));
-  }, [weekData]);
+    if (!isLoaded || isAligned || rollingOver.current) return;
+
+    rollingOver.current = true;
+    realignCurrentWeek(settings)
+      .then(data => {
+        savedWeek.current = data;
+        setWeekData(data ?? createEmptyWeek(getWeekStart(new Date(), getWeekStartsOn(settings))));
+        queryClient.invalidateQueries({ queryKey: ["history"] });
+      })
+      .catch(reportStorageError)
+      .finally(() => {
+        rollingOver.current = false;
+      });
+  }, [isLoaded, isAligned, settings, queryClient]);
 
-  const formatTime = (totalMinutes: number) => {
-    const hrs = Math.floor(totalMinutes / 60);
-    const mins = totalMinutes % 60;
-    return `${hrs}h ${mins}m`;
-  };
+  useEffect(() => {
+    if (!weekEnded || rollingOver.current) return;
+
+    const startNextWeek = () =>
+      setWeekData(current => ({
+        ...createEmptyWeek(getWeekStart(new Date(), weekStartsOn)),
+        activeSession: current.activeSession,
+      }));
+    if (weekData.entries.length === 0 && !weekData.activeSession) {
+      startNextWeek();
+      return;
+    }
+
+    // The finished week stays in place until it is safely in the history
+    rollingOver.current = true;
+    archiveWeek(weekData, getTargetsAt(settings, weekStart), weekStartsOn)
+      .then(() => {
+        startNextWeek();
+        queryClient.invalidateQueries({ queryKey: ["history"] });
+        toast.info("New week started! Last week was saved to your history.");
+      })
+      .catch(reportStorageError)
+      .finally(() => {
+        rollingOver.current = false;
+      });
+  }, [weekEnded, weekData, weekStart, weekStartsOn, settings, queryClient]);
+
+  // Save whenever data changes; a week just loaded is already saved
+  useEffect(() => {
+    if (!isLoaded || weekData === savedWeek.current) return;
+
+    const previous = savedWeek.current;
+    savedWeek.current = weekData;
+    saveWeekChanges(previous, weekData).catch(reportStorageError);
+  }, [isLoaded, weekData]);
 
-  const handleStartWork = () => {
+  const handleStartWork = async () => {
     const now = new Date();
-    
+    const activeSession = {
+      startTime: now.toISOString(),
+      projectId: startProject?.id,
+      ...toSessionNotes(clockInNote, clockInTags),
+    };
+
+    try {
+      if (!(await claimActiveSession(weekData.lastResetDate, activeSession))) {
+        toast.error("Already clocked in from another tab.");
+        return;
+      }
+    } catch (error) {
+      reportStorageError(error);
+      return;
+    }
+
+    setWeekData(prev => ({ ...prev, activeSession }));
+    setClockInNote("");
+    setClockInTags("");
+
+    toast.success("Clocked in! Work session started.", {
+      description: `Started at ${now.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}${startProject ? ` on ${getProjectLabel(startProject)}` : ""}`,
+    });
+  };
+
+  // Ends the running session in the database first; false when another tab
+  // already ended it, in which case that tab's change is on its way here.
+  const releaseSession = async () => {
+    try {
+      if (await releaseActiveSession(weekData.activeSession.startTime)) return true;
+      toast.error("This session was already ended from another tab.");
+    } catch (error) {
+      reportStorageError(error);
+    }
+    return false;
+  };
+
+  // A session still running when the week rolled over began in an earlier
+  // week. The time worked before this week is filed under the weeks it falls
+  // in, the way an import files it; the portions worked since are returned to
+  // be logged here.
+  const fileEarlierPortions = (session: WorkSession) => {
+    const { earlier, current } = splitSessionAtWeek(session, weekData.lastResetDate);
+    if (earlier.length > 0) {
+      importSessions(earlier, [], settings)
+        .then(() => queryClient.invalidateQueries({ queryKey: ["history"] }))
+        .catch(reportStorageError);
+    }
+    return current;
+  };
+
+  const handleEndWork = async () => {
+    if (!weekData.activeSession) return;
+
+    // The session keeps the project, note, tags and breaks it was recorded with
+    const session = finishActiveSession(weekData.activeSession, new Date());
+    const start = new Date(session.startTime);
+    const end = new Date(session.endTime);
+    const seconds = getSessionSeconds(session);
+
+    if (seconds < 1 && !weekData.activeSession.pausedAt) {
+      toast.error("Session too short. Nothing has been tracked yet.");
+      return;
+    }
+    if (!(await releaseSession())) return;
+
+    // Paused before any time was worked, there is nothing to log
+    if (seconds < 1) {
+      setWeekData(prev => ({ ...prev, activeSession: undefined }));
+      setElapsedSeconds(0);
+      toast.info("Session discarded. No time was worked.");
+      return;
+    }
+
+    const portions = fileEarlierPortions(session);
     setWeekData(prev => ({
-      ...prev,
-      activeSession: {
-        startTime: now.toISOString(),
-      },
+      ...portions.reduce(addSession, prev),
+      activeSession: undefined,
     }));
 
-    toast.success("Clocked in! Work session started.", {
-      description: `Started at ${now.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}`,
+    setElapsedSeconds(0);
+    toast.success(`Session ended! Logged ${formatDuration(seconds)}`, {
+      description: `${start.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })} - ${end.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}`,
     });
   };
 
-  const handleEndWork = () => {
+  // Ends the running session and starts the next one at the same instant.
+  // Before any time has been tracked there is nothing to log yet, so the
+  // running session just takes on the new project and notes instead.
+  const handleSwitchTask = async (details: SessionDetails) => {
     if (!weekData.activeSession) return;
 
+    const { activeSession } = weekData;
     const now = new Date();
-    const start = new Date(weekData.activeSession.startTime);
-    const durationMinutes = Math.floor((now.getTime() - start.getTime()) / 60000);
-
-    if (durationMinutes < 1) {
-      toast.error("Session too short. Must be at least 1 minute.");
+    const finished = finishActiveSession(activeSession, now);
+    const relabel = getSessionSeconds(finished) < 1;
+    // Switching while on a break goes straight back to work on the next task
+    const { startTime, breaks, pausedAt } = activeSession;
+    const next: ActiveSession = relabel
+      ? { startTime, breaks, pausedAt, ...details }
+      : { startTime: now.toISOString(), ...details };
+
+    try {
+      if (!(await replaceActiveSession(activeSession.startTime, next))) {
+        toast.error("This session was already ended from another tab.");
+        return;
+      }
+    } catch (error) {
+      reportStorageError(error);
       return;
     }
 
-    const session: WorkSession = {
-      startTime: weekData.activeSession.startTime,
-      endTime: now.toISOString(),
-      duration: durationMinutes,
-    };
+    const portions = relabel ? [] : fileEarlierPortions(finished);
+    setWeekData(prev => ({
+      ...portions.reduce(addSession, prev),
+      activeSession: next,
+    }));
 
-    const today = now.toLocaleDateString('en-US', { year: 'numeric', month: 'numeric', day: 'numeric' });
-    const todayDisplay = now.toLocaleDateString('en-US', { weekday: 'long', month: 'short', day: 'numeric' });
-    
-    setWeekData(prev => {
-      const existingEntryIndex = prev.entries.findIndex(e => e.date === today);
-      let newEntries = [...prev.entries];
-
-      if (existingEntryIndex >= 0) {
-        // Update existing day
-        newEntries[existingEntryIndex] = {
-          ...newEntries[existingEntryIndex],
-          sessions: [...newEntries[existingEntryIndex].sessions, session],
-          totalMinutes: newEntries[existingEntryIndex].totalMinutes + durationMinutes,
-        };
-      } else {
-        // Create new day entry
-        newEntries.push({
-          date: today,
-          displayDate: todayDisplay,
-          sessions: [session],
-          totalMinutes: durationMinutes,
-        });
+    if (!relabel) setElapsedSeconds(0);
+    const project = findProject(projects, details.projectId);
+    toast.success(`Switched to ${project ? getProjectLabel(project) : "a new task"}`, {
+      description: relabel ? undefined : `Logged ${formatDuration(getSessionSeconds(finished))} on the previous task`,
+    });
+  };
+
+  // Pausing and resuming go through the database like clocking in and out,
+  // so a tab that missed the session ending cannot bring it back.
+  const updateActiveSession = async (next: ActiveSession) => {
+    try {
+      if (await replaceActiveSession(weekData.activeSession.startTime, next)) {
+        setWeekData(prev => ({ ...prev, activeSession: next }));
+        return true;
       }
+      toast.error("This session was already ended from another tab.");
+    } catch (error) {
+      reportStorageError(error);
+    }
+    return false;
+  };
+
+  const handlePauseWork = async () => {
+    if (!weekData.activeSession || weekData.activeSession.pausedAt) return;
 
-      return {
-        ...prev,
-        totalMinutes: prev.totalMinutes + durationMinutes,
-        entries: newEntries,
-        activeSession: undefined,
-      };
+    const now = new Date();
+    if (await updateActiveSession(pauseActiveSession(weekData.activeSession, now))) {
+      toast.info("On a break. Break time is not counted.", { description: `Paused at ${formatClock(now)}` });
+    }
+  };
+
+  const handleResumeWork = async () => {
+    if (!weekData.activeSession?.pausedAt) return;
+
+    const now = new Date();
+    const breakSeconds = differenceInSeconds(now, new Date(weekData.activeSession.pausedAt));
+    if (await updateActiveSession(resumeActiveSession(weekData.activeSession, now))) {
+      toast.success(`Back to work! ${formatDuration(breakSeconds)} break recorded.`);
+    }
+  };
+
+  const handleResolveStaleSession = async (end: Date) => {
+    if (!weekData.activeSession || !(await releaseSession())) return;
+
+    const session = finishActiveSession(weekData.activeSession, end);
+    const portions = fileEarlierPortions(session);
+    setWeekData(prev => ({
+      ...portions.reduce(addSession, prev),
+      activeSession: undefined,
+    }));
+
+    setElapsedSeconds(0);
+    toast.success(`Session ended! Logged ${formatDuration(getSessionSeconds(session))}`, {
+      description: `${formatClock(new Date(session.startTime))} - ${formatClock(end)}`,
     });
+  };
+
+  const handleDiscardStaleSession = async () => {
+    if (!weekData.activeSession || !(await releaseSession())) return;
 
-    setElapsedMinutes(0);
-    toast.success(`Session ended! Logged ${formatTime(durationMinutes)}`, {
-      description: `${start.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })} - ${now.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}`,
+    setWeekData(prev => ({ ...prev, activeSession: undefined }));
+    setElapsedSeconds(0);
+    toast.info("Forgotten session discarded.");
+  };
+
+  const handleAddSession = () => {
+    setEditingSession(undefined);
+    setSessionDialogOpen(true);
+  };
+
+  const handleEditSession = (ref: SessionRef) => {
+    const entry = weekData.entries.find(e => e.date === ref.date);
+    setEditingSession({ ref, session: entry.sessions[ref.index] });
+    setSessionDialogOpen(true);
+  };
+
+  const handleSaveSession = (start: Date, end: Date, details: SessionDetails, ref?: SessionRef) => {
+    // An edited session keeps whichever of its breaks still fall inside it
+    const breaks = ref ? editingSession?.session.breaks : undefined;
+    const session = { ...createSession(start, end, breaks), ...details };
+    setWeekData(prev => (ref ? replaceSession(prev, ref, session) : addSession(prev, session)));
+    toast.success(ref ? "Session updated!" : `Session added! Logged ${formatDuration(getSessionSeconds(session))}`, {
+      description: `${formatClock(start)} - ${formatClock(end)}`,
     });
   };
 
-  const totalWithActive = weekData.totalMinutes + (weekData.activeSession ? elapsedMinutes : 0);
-  const remainingMinutes = Math.max(0, WEEKLY_TARGET_MINUTES - totalWithActive);
-  const progressPercentage = Math.min(100, (totalWithActive / WEEKLY_TARGET_MINUTES) * 100);
-  const isComplete = totalWithActive >= WEEKLY_TARGET_MINUTES;
-  const extraMinutes = Math.max(0, totalWithActive - WEEKLY_TARGET_MINUTES);
+  const handleConfirmDelete = () => {
+    if (!pendingDelete) return;
+    setWeekData(prev => removeSession(prev, pendingDelete));
+    setPendingDelete(undefined);
+    toast.info("Session deleted.");
+  };
+
+  const maxSessionMinutes = getMaxSessionMinutes(settings);
+  const staleReason =
+    weekData.activeSession && weekData.activeSession.startTime !== dismissedStaleStart
+      ? getStaleSessionReason(new Date(weekData.activeSession.startTime), currentTime, maxSessionMinutes)
+      : undefined;
+
+  const { weeklyTargetMinutes, dailyMinimumMinutes } = getTargetsAt(settings, weekStart);
+  const totalWithActive = weekData.totalSeconds + (weekData.activeSession ? elapsedSeconds : 0);
+  // Time off in lieu and leave taken this week count toward its target
+  const weekFrom = toDateKey(weekStart);
+  const weekTo = toDateKey(addDays(weekStart, 6));
+  const leave = getWeekLeave(settings, weekFrom, weekTo, weeklyTargetMinutes);
+  const weeklyTargetSeconds = leave.targetSeconds;
+  const timeOffSeconds = getTimeOffSeconds(getAdjustments(settings), weekFrom, weekTo);
+  const creditedSeconds = totalWithActive + timeOffSeconds + leave.creditedSeconds;
+  const remainingSeconds = Math.max(0, weeklyTargetSeconds - creditedSeconds);
+  const progressPercentage =
+    weeklyTargetSeconds === 0 ? 100 : Math.min(100, (creditedSeconds / weeklyTargetSeconds) * 100);
+  const isComplete = creditedSeconds >= weeklyTargetSeconds;
+  const extraSeconds = Math.max(0, creditedSeconds - weeklyTargetSeconds);
+  const overtimeBalance = getOvertimeBalance(history, settings);
   const isClockedIn = !!weekData.activeSession;
+  const isPaused = !!weekData.activeSession?.pausedAt;
+
+  const projects = getProjects(settings);
+  const activeProjects = getActiveProjects(settings);
+  const activeProject = findProject(projects, weekData.activeSession?.projectId);
+  // Falls back to no project when the picked one is archived from another tab
+  const startProject = activeProjects.find(p => p.id === selectedProjectId);
+
+  // The running session counts toward its project as it goes
+  const loggedSessions = weekData.entries.flatMap(entry => entry.sessions);
+  const runningSession: WorkSession | undefined =
+    weekData.activeSession && finishActiveSession(weekData.activeSession, currentTime);
+  const projectTotals = getProjectTotals(runningSession ? [...loggedSessions, runningSession] : loggedSessions, projects);
+
+  const compliance = getComplianceSettings(settings);
+  const violations = checkCompliance(weekData.entries, compliance.rules);
+  const rounding = getRoundingSettings(settings);
+
+  // Earnings include the running session so far
+  const currency = getCurrency(settings);
+  const hasRates = getRates(settings).length > 0;
+  const earnings = getWeekEarnings(
+    (runningSession ? addSession(weekData, runningSession) : weekData).entries,
+    settings,
+    getOvertimeThresholdMinutes(leave),
+  );
+
+  const filtering = isFilterActive(filter);
+  const matchesFilter = (session: WorkSession) => matchesSessionFilter(session, filter, projects);
+  const visibleEntries = filtering
+    ? weekData.entries.filter(entry => entry.sessions.some(matchesFilter))
+    : weekData.entries;
 
   return (
     <div className="min-h-screen bg-background p-4 md:p-8">
@@ -187,10 +470,36 @@ const Index = () => {
             Weekly Tracker
           </h1>
           <p className="text-muted-foreground">Track your progress toward your weekly goal</p>
+          <div className="flex justify-center gap-2">
+            <Button asChild variant="ghost" size="sm">
+              <Link to="/projects">
+                <FolderKanban className="h-4 w-4 mr-2" />
+                Projects
+              </Link>
+            </Button>
+            <Button asChild variant="ghost" size="sm">
+              <Link to="/leave">
+                <Palmtree className="h-4 w-4 mr-2" />
+                Leave
+              </Link>
+            </Button>
+            <Button asChild variant="ghost" size="sm">
+              <Link to="/invoices">
+                <FileText className="h-4 w-4 mr-2" />
+                Invoices
+              </Link>
+            </Button>
+            <Button asChild variant="ghost" size="sm">
+              <Link to="/settings">
+                <Settings className="h-4 w-4 mr-2" />
+                Settings
+              </Link>
+            </Button>
+          </div>
         </header>
 
         {/* Status Cards */}
-        <div className="grid gap-4 md:grid-cols-3 animate-slide-up" style={{ animationDelay: "0.1s" }}>
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4 animate-slide-up" style={{ animationDelay: "0.1s" }}>
           <Card className="p-6 shadow-card border-border/50 hover:shadow-soft transition-shadow">
             <div className="flex items-start gap-3">
               <div className="rounded-lg bg-primary/10 p-2">
@@ -198,10 +507,15 @@ const Index = () => {
               </div>
               <div className="flex-1">
                 <p className="text-sm text-muted-foreground">Current Total</p>
-                <p className="text-2xl font-bold text-foreground">{formatTime(totalWithActive)}</p>
+                <p className="text-2xl font-bold text-foreground">{formatDuration(totalWithActive)}</p>
                 {isClockedIn && (
                   <p className="text-xs text-muted-foreground mt-1">
-                    +{formatTime(elapsedMinutes)} active
+                    +{formatDuration(elapsedSeconds)} active
+                  </p>
+                )}
+                {isRoundingEnabled(rounding) && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {formatDuration(getBillableSeconds(weekData.entries, rounding))} billable logged
                   </p>
                 )}
               </div>
@@ -215,7 +529,16 @@ const Index = () => {
               </div>
               <div className="flex-1">
                 <p className="text-sm text-muted-foreground">Weekly Target</p>
-                <p className="text-2xl font-bold text-foreground">{formatTime(WEEKLY_TARGET_MINUTES)}</p>
+                <p className="text-2xl font-bold text-foreground">
+                  {weeklyTargetSeconds === weeklyTargetMinutes * 60
+                    ? formatTime(weeklyTargetMinutes)
+                    : formatDuration(weeklyTargetSeconds)}
+                </p>
+                {weeklyTargetSeconds < weeklyTargetMinutes * 60 && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {formatDuration(weeklyTargetMinutes * 60 - weeklyTargetSeconds)} off for leave
+                  </p>
+                )}
               </div>
             </div>
           </Card>
@@ -228,11 +551,32 @@ const Index = () => {
               <div className="flex-1">
                 <p className="text-sm text-muted-foreground">Remaining</p>
                 <p className="text-2xl font-bold text-foreground">
-                  {isComplete ? "Complete!" : formatTime(remainingMinutes)}
+                  {isComplete ? "Complete!" : formatDuration(remainingSeconds)}
                 </p>
               </div>
             </div>
           </Card>
+
+          <Card className="p-6 shadow-card border-border/50 hover:shadow-soft transition-shadow">
+            <div className="flex items-start gap-3">
+              <div className="rounded-lg bg-primary/10 p-2">
+                <Wallet className="h-5 w-5 text-primary" />
+              </div>
+              <div className="flex-1">
+                <p className="text-sm text-muted-foreground">Earnings</p>
+                <p className="text-2xl font-bold text-foreground">{formatMoney(earnings.total, currency)}</p>
+                {!hasRates ? (
+                  <Link to="/projects" className="text-xs text-muted-foreground underline-offset-4 hover:underline mt-1 block">
+                    Set hourly rates
+                  </Link>
+                ) : earnings.overtime > 0 && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    incl. {formatMoney(earnings.overtime, currency)} overtime
+                  </p>
+                )}
+              </div>
+            </div>
+          </Card>
         </div>
 
         {/* Progress Section */}
@@ -246,22 +590,48 @@ const Index = () => {
             </div>
             
             <Progress value={progressPercentage} className="h-3" />
+
+            {timeOffSeconds > 0 && (
+              <p className="text-sm text-muted-foreground">
+                Includes {formatDuration(timeOffSeconds)} time off in lieu.
+              </p>
+            )}
+            {leave.days.length > 0 && (
+              <p className="text-sm text-muted-foreground">
+                Leave: {leave.days.map(formatLeaveDay).join(", ")}
+                {leave.creditedSeconds > 0 && ` (${formatDuration(leave.creditedSeconds)} counted as worked)`}
+              </p>
+            )}
             
             {isComplete ? (
               <div className="flex items-center gap-2 p-4 rounded-lg bg-success/10 border border-success/20">
                 <CheckCircle2 className="h-5 w-5 text-success flex-shrink-0" />
                 <p className="text-sm font-medium text-success">
-                  ✅ Weekly Goal Complete! ({formatTime(extraMinutes)} extra)
+                  ✅ Weekly Goal Complete! ({formatDuration(extraSeconds)} extra)
                 </p>
               </div>
             ) : (
               <div className="flex items-center gap-2 p-4 rounded-lg bg-primary/5 border border-primary/10">
                 <AlertCircle className="h-5 w-5 text-primary flex-shrink-0" />
                 <p className="text-sm text-muted-foreground">
-                  Keep going! You need {formatTime(remainingMinutes)} more to reach your goal.
+                  Keep going! You need {formatDuration(remainingSeconds)} more to reach your goal.
                 </p>
               </div>
             )}
+
+            <div className="flex items-center justify-between gap-2 text-sm">
+              <div className="flex items-center gap-2 text-muted-foreground">
+                <Scale className="h-4 w-4" />
+                <span>
+                  Overtime balance:{" "}
+                  <span className="font-medium text-foreground">{formatBalance(overtimeBalance)}</span>
+                  {" "}before this week
+                </span>
+              </div>
+              <Link to="/overtime" className="text-muted-foreground underline-offset-4 hover:underline">
+                Ledger & time off
+              </Link>
+            </div>
           </div>
         </Card>
 
@@ -282,15 +652,24 @@ const Index = () => {
             <div className={`p-4 rounded-lg border ${isClockedIn ? 'bg-success/5 border-success/20' : 'bg-muted/30 border-border/50'}`}>
               {isClockedIn ? (
                 <div className="space-y-2">
-                  <div className="flex items-center gap-2 text-success">
-                    <Timer className="h-5 w-5" />
-                    <span className="font-semibold">Clocked In</span>
-                  </div>
+                  {isPaused ? (
+                    <div className="flex items-center gap-2 text-warning">
+                      <Coffee className="h-5 w-5" />
+                      <span className="font-semibold">On a Break</span>
+                    </div>
+                  ) : (
+                    <div className="flex items-center gap-2 text-success">
+                      <Timer className="h-5 w-5" />
+                      <span className="font-semibold">Clocked In</span>
+                    </div>
+                  )}
                   <p className="text-sm text-muted-foreground">
                     Started at {new Date(weekData.activeSession!.startTime).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}
                   </p>
+                  {projects.length > 0 && <ProjectLabel project={activeProject} className="text-sm" />}
+                  <SessionNotes note={weekData.activeSession!.note} tags={weekData.activeSession!.tags} />
                   <div className="text-2xl font-bold text-foreground">
-                    {formatTime(elapsedMinutes)}
+                    {formatTimer(elapsedSeconds)}
                   </div>
                 </div>
               ) : (
@@ -301,11 +680,40 @@ const Index = () => {
               )}
             </div>
 
+            {!isClockedIn && (
+              <div className="grid gap-3 md:grid-cols-2">
+                <Input
+                  value={clockInNote}
+                  onChange={e => setClockInNote(e.target.value)}
+                  placeholder="What are you working on?"
+                  maxLength={500}
+                  aria-label="Note"
+                />
+                <Input
+                  value={clockInTags}
+                  onChange={e => setClockInTags(e.target.value)}
+                  placeholder="Tags, separated by commas"
+                  aria-label="Tags"
+                />
+              </div>
+            )}
+
             {/* Action Buttons */}
-            <div className="flex gap-3">
+            <div className="flex flex-wrap gap-3">
+              {!isClockedIn && activeProjects.length > 0 && (
+                <Select value={startProject?.id ?? NO_PROJECT} onValueChange={setSelectedProjectId}>
+                  <SelectTrigger className="h-11 w-48 md:w-64" aria-label="Project">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <ProjectSelectItems projects={activeProjects} />
+                  </SelectContent>
+                </Select>
+              )}
               {!isClockedIn ? (
                 <Button
                   onClick={handleStartWork}
+                  disabled={!isLoaded}
                   className="flex-1 bg-success hover:bg-success/90 text-success-foreground"
                   size="lg"
                 >
@@ -313,27 +721,71 @@ const Index = () => {
                   Start Work
                 </Button>
               ) : (
-                <Button
-                  onClick={handleEndWork}
-                  className="flex-1 bg-destructive hover:bg-destructive/90 text-destructive-foreground"
-                  size="lg"
-                >
-                  <Square className="h-5 w-5 mr-2" />
-                  End Work
-                </Button>
+                <>
+                  {isPaused ? (
+                    <Button onClick={handleResumeWork} variant="outline" size="lg">
+                      <Play className="h-5 w-5 mr-2" />
+                      Resume
+                    </Button>
+                  ) : (
+                    <Button onClick={handlePauseWork} variant="outline" size="lg">
+                      <Coffee className="h-5 w-5 mr-2" />
+                      Pause
+                    </Button>
+                  )}
+                  <Button onClick={() => setSwitchDialogOpen(true)} variant="outline" size="lg">
+                    <ArrowLeftRight className="h-5 w-5 mr-2" />
+                    Switch Task
+                  </Button>
+                  <Button
+                    onClick={handleEndWork}
+                    className="flex-1 bg-destructive hover:bg-destructive/90 text-destructive-foreground"
+                    size="lg"
+                  >
+                    <Square className="h-5 w-5 mr-2" />
+                    End Work
+                  </Button>
+                </>
               )}
             </div>
 
             <p className="text-xs text-muted-foreground text-center">
-              Daily minimum requirement: 6 hours · Weekly target: 45 hours
+              Daily minimum requirement: {formatHours(dailyMinimumMinutes)} · Weekly target: {formatHours(weeklyTargetMinutes)}
             </p>
           </div>
         </Card>
 
         {/* Weekly Log */}
         <Card className="p-6 shadow-card border-border/50 animate-slide-up" style={{ animationDelay: "0.4s" }}>
-          <div className="mb-4">
+          <div className="mb-4 flex flex-wrap items-center justify-between gap-2">
             <h2 className="text-lg font-semibold">Weekly Log</h2>
+            <div className="flex flex-wrap items-center gap-2">
+              <Button variant="outline" size="sm" onClick={handleAddSession}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Session
+              </Button>
+              <ExportDialog weekStart={weekStart} />
+              <Button asChild variant="ghost" size="sm">
+                <Link to="/import">
+                  <Upload className="h-4 w-4 mr-2" />
+                  Import
+                </Link>
+              </Button>
+              {hasComplianceRules(compliance) && (
+                <Button asChild variant="ghost" size="sm">
+                  <Link to="/compliance">
+                    <ShieldCheck className="h-4 w-4 mr-2" />
+                    Compliance
+                  </Link>
+                </Button>
+              )}
+              <Button asChild variant="ghost" size="sm">
+                <Link to="/history">
+                  <History className="h-4 w-4 mr-2" />
+                  Past Weeks
+                </Link>
+              </Button>
+            </div>
           </div>
 
           {weekData.entries.length === 0 && !isClockedIn ? (
@@ -343,39 +795,30 @@ const Index = () => {
             </div>
           ) : (
             <div className="space-y-4">
-              {weekData.entries.map((entry, dayIndex) => (
-                <div
-                  key={dayIndex}
-                  className="p-4 rounded-lg bg-muted/30 border border-border/50 space-y-3"
-                >
-                  <div className="flex items-center justify-between pb-2 border-b border-border/50">
-                    <span className="font-semibold text-foreground">{entry.displayDate}</span>
-                    <span className={`text-sm font-medium ${entry.totalMinutes >= DAILY_MINIMUM_MINUTES ? 'text-success' : 'text-warning'}`}>
-                      {formatTime(entry.totalMinutes)}
-                      {entry.totalMinutes < DAILY_MINIMUM_MINUTES && ' ⚠️'}
-                    </span>
-                  </div>
-                  
-                  <div className="space-y-2">
-                    {entry.sessions.map((session, sessionIndex) => {
-                      const start = new Date(session.startTime);
-                      const end = new Date(session.endTime);
-                      return (
-                        <div
-                          key={sessionIndex}
-                          className="flex items-center justify-between text-sm pl-3"
-                        >
-                          <span className="text-muted-foreground">
-                            {start.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })} - {end.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}
-                          </span>
-                          <span className="text-foreground font-medium">
-                            {formatTime(session.duration)}
-                          </span>
-                        </div>
-                      );
-                    })}
-                  </div>
-                </div>
+              {projects.length > 0 && <ProjectBreakdown totals={projectTotals} />}
+
+              {loggedSessions.length > 0 && (
+                <SessionFilterBar filter={filter} onFilterChange={setFilter} tags={collectTags(loggedSessions)} />
+              )}
+
+              {filtering && visibleEntries.length === 0 && (
+                <p className="text-center py-4 text-sm text-muted-foreground">No sessions this week match your search.</p>
+              )}
+
+              {visibleEntries.map(entry => (
+                <DailyEntryCard
+                  key={entry.date}
+                  entry={entry}
+                  dailyMinimumMinutes={dailyMinimumMinutes}
+                  projects={projects}
+                  violations={violations.get(entry.date)}
+                  rounding={rounding}
+                  earnings={hasRates ? earnings : undefined}
+                  currency={currency}
+                  matches={matchesFilter}
+                  onEditSession={index => handleEditSession({ date: entry.date, index })}
+                  onDeleteSession={index => setPendingDelete({ date: entry.date, index })}
+                />
               ))}
 
               {/* Show current active session in the log */}
@@ -389,24 +832,80 @@ const Index = () => {
                       <span className="text-xs text-success font-medium">(Active)</span>
                     </div>
                     <span className="text-sm font-medium text-success">
-                      {formatTime(elapsedMinutes)}
+                      {formatTimer(elapsedSeconds)}
                     </span>
                   </div>
                   
                   <div className="flex items-center justify-between text-sm pl-3">
-                    <span className="text-muted-foreground">
-                      {new Date(weekData.activeSession!.startTime).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })} - Now
-                    </span>
-                    <span className="text-success font-medium animate-pulse">
-                      Recording...
-                    </span>
+                    <div className="flex items-center gap-3 min-w-0">
+                      <span className="text-muted-foreground flex-shrink-0">
+                        {new Date(weekData.activeSession!.startTime).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })} - Now
+                      </span>
+                      {projects.length > 0 && (
+                        <ProjectLabel project={activeProject} className="text-xs text-muted-foreground" />
+                      )}
+                    </div>
+                    {isPaused ? (
+                      <span className="text-warning font-medium">On a break</span>
+                    ) : (
+                      <span className="text-success font-medium animate-pulse">
+                        Recording...
+                      </span>
+                    )}
                   </div>
+                  <BreakList
+                    breaks={weekData.activeSession!.breaks}
+                    pausedAt={weekData.activeSession!.pausedAt}
+                    className="pl-3"
+                  />
+                  <SessionNotes note={weekData.activeSession!.note} tags={weekData.activeSession!.tags} className="pl-3" />
                 </div>
               )}
             </div>
           )}
         </Card>
       </div>
+
+      <SessionDialog
+        open={sessionDialogOpen}
+        onOpenChange={setSessionDialogOpen}
+        weekData={weekData}
+        weekStart={weekStart}
+        editing={editingSession}
+        projects={projects}
+        onSave={handleSaveSession}
+      />
+
+      <SwitchTaskDialog
+        open={switchDialogOpen}
+        onOpenChange={setSwitchDialogOpen}
+        projects={activeProjects}
+        onSwitch={handleSwitchTask}
+      />
+
+      <StaleSessionDialog
+        startTime={weekData.activeSession?.startTime}
+        reason={staleReason}
+        maxSessionMinutes={maxSessionMinutes}
+        onResolve={handleResolveStaleSession}
+        onDiscard={handleDiscardStaleSession}
+        onKeepRunning={() => setDismissedStaleStart(weekData.activeSession?.startTime)}
+      />
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={open => !open && setPendingDelete(undefined)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this session?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Its time will be removed from the day and week totals. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirmDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 };
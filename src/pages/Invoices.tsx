@@ -0,0 +1,319 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { endOfMonth, startOfMonth, subMonths } from "date-fns";
+import { toast } from "sonner";
+import { AlertCircle, ArrowLeft, Download, FileText, Printer } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import InvoicePreview from "@/components/tracker/InvoicePreview";
+import { toDateKey } from "@/lib/settings";
+import { getProjects } from "@/lib/projects";
+import { getClients } from "@/lib/rates";
+import { downloadFile } from "@/lib/export";
+import {
+  loadSessionsBetween,
+  loadSettings,
+  reportStorageError,
+  saveSettings,
+  subscribeToSettingsChanges,
+} from "@/lib/storage";
+import {
+  Invoice,
+  InvoiceFormValues,
+  buildInvoice,
+  getInvoiceSettings,
+  getNextInvoiceNumber,
+  invoiceFormSchema,
+  invoiceToPdf,
+} from "@/lib/invoices";
+
+const Invoices = () => {
+  const [settings, setSettings] = useState(loadSettings);
+  const [invoice, setInvoice] = useState<Invoice>();
+  const clients = getClients(getProjects(settings));
+  const invoicing = getInvoiceSettings(settings);
+
+  // Defaults to last month, the usual billing period
+  const lastMonth = subMonths(new Date(), 1);
+  const form = useForm<InvoiceFormValues>({
+    resolver: zodResolver(invoiceFormSchema),
+    defaultValues: {
+      client: clients[0] ?? "",
+      from: toDateKey(startOfMonth(lastMonth)),
+      to: toDateKey(endOfMonth(lastMonth)),
+      number: invoicing.nextNumber,
+      issueDate: toDateKey(new Date()),
+      dueDays: invoicing.dueDays,
+      taxPercent: invoicing.taxPercent,
+      issuer: invoicing.issuer,
+      billTo: "",
+    },
+  });
+
+  useEffect(() => subscribeToSettingsChanges(setSettings), []);
+
+  const onSubmit = async (values: InvoiceFormValues) => {
+    try {
+      setInvoice(buildInvoice(values, await loadSessionsBetween(values.from, values.to), settings));
+    } catch (error) {
+      reportStorageError(error);
+    }
+  };
+
+  // Printing or downloading issues the invoice: the details are remembered
+  // for next time and, if it used the next number, the count moves on. Only
+  // the invoicing details are written, over the settings as saved.
+  const issueInvoice = (issued: Invoice) => {
+    const next = saveSettings(saved => {
+      const { nextNumber } = getInvoiceSettings(saved);
+      return {
+        ...saved,
+        invoicing: {
+          issuer: issued.issuer,
+          taxPercent: issued.taxPercent,
+          dueDays: form.getValues("dueDays"),
+          nextNumber: issued.number === nextNumber ? getNextInvoiceNumber(issued.number) : nextNumber,
+        },
+      };
+    });
+    setSettings(next);
+    if (form.getValues("number") === issued.number) form.setValue("number", getInvoiceSettings(next).nextNumber);
+  };
+
+  const handlePrint = () => {
+    issueInvoice(invoice);
+    window.print();
+  };
+
+  const handleDownload = () => {
+    issueInvoice(invoice);
+    downloadFile(`invoice_${invoice.number}.pdf`, invoiceToPdf(invoice), "application/pdf");
+    toast.success(`Invoice ${invoice.number} downloaded!`);
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-4 md:p-8 print:p-0">
+      <div className="mx-auto max-w-4xl space-y-6 animate-fade-in">
+        <header className="space-y-4 animate-slide-up print:hidden">
+          <Button asChild variant="ghost" size="sm">
+            <Link to="/">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to tracker
+            </Link>
+          </Button>
+          <div className="text-center space-y-2">
+            <h1 className="text-4xl md:text-5xl font-bold bg-gradient-primary bg-clip-text text-transparent">
+              Invoices
+            </h1>
+            <p className="text-muted-foreground">Bill a client for the time you tracked for them</p>
+          </div>
+        </header>
+
+        <Card
+          className="p-6 shadow-card border-border/50 animate-slide-up print:hidden"
+          style={{ animationDelay: "0.1s" }}
+        >
+          {clients.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <FileText className="h-12 w-12 mx-auto mb-3 opacity-50" />
+              <p>
+                Invoices are made out to clients.{" "}
+                <Link to="/projects" className="underline underline-offset-4">
+                  Add a client to your projects
+                </Link>{" "}
+                and set their hourly rates first.
+              </p>
+            </div>
+          ) : (
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                <div className="grid gap-4 md:grid-cols-3">
+                  <FormField
+                    control={form.control}
+                    name="client"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Client</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Pick a client" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {clients.map(client => (
+                              <SelectItem key={client} value={client}>
+                                {client}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="from"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Work from</FormLabel>
+                        <FormControl>
+                          <Input type="date" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="to"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Work to</FormLabel>
+                        <FormControl>
+                          <Input type="date" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="number"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Invoice number</FormLabel>
+                        <FormControl>
+                          <Input {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="issueDate"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Invoice date</FormLabel>
+                        <FormControl>
+                          <Input type="date" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <div className="grid gap-4 grid-cols-2">
+                    <FormField
+                      control={form.control}
+                      name="dueDays"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Due in (days)</FormLabel>
+                          <FormControl>
+                            <Input type="number" min="0" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="taxPercent"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Tax (%)</FormLabel>
+                          <FormControl>
+                            <Input type="number" step="0.1" min="0" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                </div>
+                <div className="grid gap-4 md:grid-cols-2">
+                  <FormField
+                    control={form.control}
+                    name="issuer"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Your details</FormLabel>
+                        <FormControl>
+                          <Textarea rows={4} placeholder="Name, address, tax number" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="billTo"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Bill to</FormLabel>
+                        <FormControl>
+                          <Textarea rows={4} placeholder="The client's name and address" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                <Button type="submit">Create invoice</Button>
+              </form>
+            </Form>
+          )}
+        </Card>
+
+        {invoice && (
+          <>
+            {invoice.unratedSessions > 0 && (
+              <div className="flex items-center gap-2 p-4 rounded-lg bg-warning/10 border border-warning/20 text-warning print:hidden">
+                <AlertCircle className="h-5 w-5 flex-shrink-0" />
+                <span className="text-sm">
+                  {invoice.unratedSessions} {invoice.unratedSessions === 1 ? "session has" : "sessions have"} no hourly
+                  rate and {invoice.unratedSessions === 1 ? "was" : "were"} left off.{" "}
+                  <Link to="/projects" className="underline underline-offset-4">
+                    Set rates
+                  </Link>
+                </span>
+              </div>
+            )}
+
+            {invoice.lines.length === 0 ? (
+              <p className="text-center py-4 text-sm text-muted-foreground">
+                No billable time for this client in this range.
+              </p>
+            ) : (
+              <>
+                <div className="flex justify-end gap-2 print:hidden">
+                  <Button variant="outline" onClick={handlePrint}>
+                    <Printer className="h-4 w-4 mr-2" />
+                    Print
+                  </Button>
+                  <Button onClick={handleDownload}>
+                    <Download className="h-4 w-4 mr-2" />
+                    Download PDF
+                  </Button>
+                </div>
+                <Card className="p-8 shadow-card border-border/50 animate-slide-up print:p-0 print:shadow-none print:border-0">
+                  <InvoicePreview invoice={invoice} />
+                </Card>
+              </>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Invoices;
@@ -0,0 +1,371 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { toast } from "sonner";
+import { ArrowLeft, Palmtree, Trash2 } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { formatTime } from "@/lib/tracker";
+import { toDateKey } from "@/lib/settings";
+import { loadSettings, saveSettings, subscribeToSettingsChanges } from "@/lib/storage";
+import {
+  LEAVE_KINDS,
+  LeaveFormValues,
+  LeaveKind,
+  LeavePolicyFormValues,
+  bookLeave,
+  formatLeaveDay,
+  fromLeaveFormValues,
+  fromLeavePolicyFormValues,
+  getLeave,
+  getLeavePolicy,
+  getVacationBalance,
+  getVacationBalances,
+  leaveFormSchema,
+  leavePolicyFormSchema,
+  removeLeave,
+  toLeavePolicyFormValues,
+} from "@/lib/leave";
+
+const Leave = () => {
+  const [settings, setSettings] = useState(loadSettings);
+  const leave = getLeave(settings);
+  const policy = getLeavePolicy(settings);
+  const balances = getVacationBalances(settings, new Date());
+
+  const form = useForm<LeaveFormValues>({
+    resolver: zodResolver(leaveFormSchema),
+    defaultValues: {
+      kind: "vacation",
+      from: toDateKey(new Date()),
+      to: toDateKey(new Date()),
+      hours: policy.creditedMinutes.vacation / 60,
+      skipWeekends: true,
+      note: "",
+    },
+  });
+
+  const policyForm = useForm<LeavePolicyFormValues>({
+    resolver: zodResolver(leavePolicyFormSchema),
+    defaultValues: toLeavePolicyFormValues(policy),
+  });
+
+  useEffect(() => subscribeToSettingsChanges(setSettings), []);
+
+  const updateSettings = (next: typeof settings) => {
+    setSettings(next);
+    saveSettings(next);
+  };
+
+  // Each kind of leave suggests its own credited hours
+  const handleKindChange = (kind: LeaveKind) => {
+    form.setValue("kind", kind);
+    form.setValue("hours", policy.creditedMinutes[kind] / 60);
+  };
+
+  const onSubmit = (values: LeaveFormValues) => {
+    const days = fromLeaveFormValues(values, policy);
+    if (days.length === 0) {
+      form.setError("to", { message: "There are only weekend days in this range" });
+      return;
+    }
+    const next = bookLeave(settings, days);
+    updateSettings(next);
+    form.reset({ ...values, note: "" });
+    toast.success(
+      `${days.length} ${days.length === 1 ? "day" : "days"} of ${LEAVE_KINDS[values.kind].toLowerCase()} booked!`,
+    );
+
+    if (values.kind === "vacation") {
+      const years = new Set(days.map(day => Number(day.date.slice(0, 4))));
+      years.forEach(year => {
+        const balance = getVacationBalance(next, year);
+        if (balance.remaining < 0) {
+          toast.warning(
+            `That is ${-balance.remaining} ${balance.remaining === -1 ? "day" : "days"} over your ${year} vacation allowance.`,
+          );
+        }
+      });
+    }
+  };
+
+  const onPolicySubmit = (values: LeavePolicyFormValues) => {
+    updateSettings({ ...settings, leavePolicy: fromLeavePolicyFormValues(values) });
+    toast.success("Leave policy saved!");
+  };
+
+  const handleDelete = (id: string) => {
+    updateSettings(removeLeave(settings, id));
+    toast.info("Leave removed.");
+  };
+
+  const hoursField = (name: "holidayHours" | "vacationHours" | "sickHours" | "unpaidHours", label: string) => (
+    <FormField
+      control={policyForm.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input type="number" step="0.25" min="0" {...field} />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <div className="min-h-screen bg-background p-4 md:p-8">
+      <div className="mx-auto max-w-4xl space-y-6 animate-fade-in">
+        <header className="space-y-4 animate-slide-up">
+          <Button asChild variant="ghost" size="sm">
+            <Link to="/">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to tracker
+            </Link>
+          </Button>
+          <div className="text-center space-y-2">
+            <h1 className="text-4xl md:text-5xl font-bold bg-gradient-primary bg-clip-text text-transparent">
+              Leave
+            </h1>
+            <p className="text-muted-foreground">Holidays, vacation and sick days that count toward your targets</p>
+          </div>
+        </header>
+
+        <Card className="p-6 shadow-card border-border/50 animate-slide-up" style={{ animationDelay: "0.1s" }}>
+          <h2 className="text-lg font-semibold mb-4">Vacation Allowance</h2>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Year</TableHead>
+                <TableHead className="text-right">Allowance</TableHead>
+                <TableHead className="text-right">Taken</TableHead>
+                <TableHead className="text-right">Left</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {balances.map(balance => (
+                <TableRow key={balance.year}>
+                  <TableCell>{balance.year}</TableCell>
+                  <TableCell className="text-right">{balance.allowance} days</TableCell>
+                  <TableCell className="text-right">{balance.taken} days</TableCell>
+                  <TableCell className={`text-right font-medium ${balance.remaining < 0 ? "text-warning" : ""}`}>
+                    {balance.remaining} days
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Card>
+
+        <Card className="p-6 shadow-card border-border/50 animate-slide-up" style={{ animationDelay: "0.2s" }}>
+          <h2 className="text-lg font-semibold mb-4">Book Leave</h2>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <div className="grid gap-4 md:grid-cols-4">
+                <FormField
+                  control={form.control}
+                  name="kind"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Type</FormLabel>
+                      <Select value={field.value} onValueChange={handleKindChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {Object.entries(LEAVE_KINDS).map(([kind, label]) => (
+                            <SelectItem key={kind} value={kind}>
+                              {label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="from"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>From</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="to"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>To</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="hours"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Credited hours a day</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="0.25" min="0" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="note"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Note</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Optional, e.g. New Year's Day" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="skipWeekends"
+                render={({ field }) => (
+                  <FormItem className="flex items-center gap-2 space-y-0">
+                    <FormControl>
+                      <Checkbox checked={field.value} onCheckedChange={field.onChange} />
+                    </FormControl>
+                    <FormLabel className="font-normal">Leave out Saturdays and Sundays</FormLabel>
+                  </FormItem>
+                )}
+              />
+              <FormDescription>
+                Booking a day that already has leave replaces it. Each vacation day counts against that year's
+                allowance.
+              </FormDescription>
+              <Button type="submit">Book leave</Button>
+            </form>
+          </Form>
+
+          {leave.length === 0 ? (
+            <div className="text-center pt-8 text-muted-foreground">
+              <Palmtree className="h-12 w-12 mx-auto mb-3 opacity-50" />
+              <p>No leave booked yet.</p>
+            </div>
+          ) : (
+            <Table className="mt-6">
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Day</TableHead>
+                  <TableHead>Credited</TableHead>
+                  <TableHead>Note</TableHead>
+                  <TableHead className="w-12" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {[...leave].reverse().map(day => (
+                  <TableRow key={day.id}>
+                    <TableCell>
+                      {formatLeaveDay(day)}
+                      <span className="text-muted-foreground">, {day.date.slice(0, 4)}</span>
+                    </TableCell>
+                    <TableCell>{formatTime(day.creditedMinutes)}</TableCell>
+                    <TableCell className="text-muted-foreground">{day.note}</TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleDelete(day.id)}
+                        aria-label={`Remove ${formatLeaveDay(day)}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </Card>
+
+        <Card className="p-6 shadow-card border-border/50 animate-slide-up" style={{ animationDelay: "0.3s" }}>
+          <h2 className="text-lg font-semibold mb-4">Leave Policy</h2>
+          <Form {...policyForm}>
+            <form onSubmit={policyForm.handleSubmit(onPolicySubmit)} className="space-y-4">
+              <div className="grid gap-4 md:grid-cols-2">
+                <FormField
+                  control={policyForm.control}
+                  name="creditMode"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Credited hours</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="reduceTarget">Lower the weekly target</SelectItem>
+                          <SelectItem value="countAsWorked">Count as time worked</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>Applies to days booked from now on.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={policyForm.control}
+                  name="vacationDaysPerYear"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Vacation days a year</FormLabel>
+                      <FormControl>
+                        <Input type="number" min="0" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <div className="grid gap-4 md:grid-cols-4">
+                {hoursField("holidayHours", "Public holiday (hours)")}
+                {hoursField("vacationHours", "Vacation (hours)")}
+                {hoursField("sickHours", "Sick day (hours)")}
+                {hoursField("unpaidHours", "Unpaid leave (hours)")}
+              </div>
+              <FormDescription>
+                The hours are suggested when booking a day of each kind; days already booked keep their own. Either
+                way, a week with leave needs that much less tracked time to reach its target.
+              </FormDescription>
+              <Button type="submit">Save leave policy</Button>
+            </form>
+          </Form>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Leave;
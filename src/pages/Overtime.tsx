@@ -0,0 +1,219 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { toast } from "sonner";
+import { ArrowLeft, Scale, Trash2 } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toDateKey } from "@/lib/settings";
+import { loadHistory, loadSettings, saveSettings, subscribeToSettingsChanges } from "@/lib/storage";
+import {
+  AdjustmentFormValues,
+  addAdjustment,
+  adjustmentFormSchema,
+  formatBalance,
+  fromAdjustmentFormValues,
+  getOvertimeLedger,
+  removeAdjustment,
+} from "@/lib/overtime";
+
+const Overtime = () => {
+  const { data: history = [], isLoading } = useQuery({ queryKey: ["history"], queryFn: loadHistory });
+  const [settings, setSettings] = useState(loadSettings);
+
+  useEffect(() => subscribeToSettingsChanges(setSettings), []);
+
+  const ledger = getOvertimeLedger(history, settings);
+  const balance = ledger.length > 0 ? ledger[ledger.length - 1].balance : 0;
+
+  const form = useForm<AdjustmentFormValues>({
+    resolver: zodResolver(adjustmentFormSchema),
+    defaultValues: { kind: "timeOff", date: toDateKey(new Date()), hours: 0, note: "" },
+  });
+
+  const selectedKind = form.watch("kind");
+
+  const updateSettings = (next: typeof settings) => {
+    setSettings(next);
+    saveSettings(next);
+  };
+
+  const onSubmit = (values: AdjustmentFormValues) => {
+    const adjustment = fromAdjustmentFormValues(values);
+    updateSettings(addAdjustment(settings, adjustment));
+    form.reset({ ...values, hours: 0, note: "" });
+    toast.success(adjustment.kind === "timeOff" ? "Time off booked!" : "Balance adjusted!", {
+      description: `${formatBalance(adjustment.minutes * 60)} on ${adjustment.date}`,
+    });
+  };
+
+  const handleDelete = (id: string) => {
+    updateSettings(removeAdjustment(settings, id));
+    toast.info("Entry removed.");
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-4 md:p-8">
+      <div className="mx-auto max-w-4xl space-y-6 animate-fade-in">
+        <header className="space-y-4 animate-slide-up">
+          <Button asChild variant="ghost" size="sm">
+            <Link to="/">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to tracker
+            </Link>
+          </Button>
+          <div className="text-center space-y-2">
+            <h1 className="text-4xl md:text-5xl font-bold bg-gradient-primary bg-clip-text text-transparent">
+              Overtime
+            </h1>
+            <p className="text-muted-foreground">The hours you are ahead of or behind your targets</p>
+          </div>
+        </header>
+
+        <Card className="p-6 shadow-card border-border/50 animate-slide-up" style={{ animationDelay: "0.1s" }}>
+          <div className="flex items-start gap-3">
+            <div className={`rounded-lg p-2 ${balance >= 0 ? "bg-success/10" : "bg-warning/10"}`}>
+              <Scale className={`h-5 w-5 ${balance >= 0 ? "text-success" : "text-warning"}`} />
+            </div>
+            <div className="flex-1">
+              <p className="text-sm text-muted-foreground">Balance</p>
+              <p className="text-2xl font-bold text-foreground">{formatBalance(balance)}</p>
+              <p className="text-xs text-muted-foreground mt-1">
+                Carried over from finished weeks. The current week is added once it ends.
+              </p>
+            </div>
+          </div>
+        </Card>
+
+        <Card className="p-6 shadow-card border-border/50 animate-slide-up" style={{ animationDelay: "0.2s" }}>
+          <h2 className="text-lg font-semibold mb-4">Take Time Off or Adjust</h2>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <div className="grid gap-4 md:grid-cols-4">
+                <FormField
+                  control={form.control}
+                  name="kind"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Type</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="timeOff">Time off in lieu</SelectItem>
+                          <SelectItem value="adjustment">Adjustment</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="date"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{selectedKind === "timeOff" ? "Day off" : "Date"}</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="hours"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{selectedKind === "timeOff" ? "Hours off" : "Hours (+/-)"}</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="0.25" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="note"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Note</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Optional" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormDescription>
+                Time off in lieu takes the hours out of your balance and counts them toward the target of the week
+                the day off falls in. Adjustments change the balance directly, for example to carry over a balance
+                from before you started tracking.
+              </FormDescription>
+              <Button type="submit">Save</Button>
+            </form>
+          </Form>
+        </Card>
+
+        <Card className="p-6 shadow-card border-border/50 animate-slide-up" style={{ animationDelay: "0.3s" }}>
+          <h2 className="text-lg font-semibold mb-4">Ledger</h2>
+          {isLoading ? null : ledger.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Nothing yet. Each week is added here once it ends, along with any time off and adjustments.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead className="text-right">Change</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                  <TableHead className="w-12" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {[...ledger].reverse().map(row => (
+                  <TableRow key={row.adjustment?.id ?? `week:${row.date}`}>
+                    <TableCell>{row.date}</TableCell>
+                    <TableCell>{row.description}</TableCell>
+                    <TableCell className={`text-right ${row.seconds < 0 ? "text-warning" : "text-success"}`}>
+                      {formatBalance(row.seconds)}
+                    </TableCell>
+                    <TableCell className="text-right font-medium">{formatBalance(row.balance)}</TableCell>
+                    <TableCell>
+                      {row.adjustment && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleDelete(row.adjustment.id)}
+                          aria-label={`Remove ${row.description}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Overtime;
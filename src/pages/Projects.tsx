@@ -0,0 +1,189 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { toast } from "sonner";
+import { Archive, ArchiveRestore, ArrowLeft, FolderKanban, Pencil, Plus, Trash2 } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import ProjectDialog from "@/components/tracker/ProjectDialog";
+import ProjectLabel from "@/components/tracker/ProjectLabel";
+import RatesCard from "@/components/tracker/RatesCard";
+import type { Project } from "@/types/tracker";
+import { getProjects, removeProject, upsertProject } from "@/lib/projects";
+import { loadSettings, saveSettings, subscribeToSettingsChanges } from "@/lib/storage";
+
+const Projects = () => {
+  const [settings, setSettings] = useState(loadSettings);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<Project>();
+  const [pendingDelete, setPendingDelete] = useState<Project>();
+
+  useEffect(() => subscribeToSettingsChanges(setSettings), []);
+
+  const projects = getProjects(settings);
+  // Archived projects go to the bottom of the list
+  const sorted = [...projects].sort((a, b) => Number(a.archived) - Number(b.archived));
+
+  const updateSettings = (next: typeof settings) => {
+    setSettings(next);
+    saveSettings(next);
+  };
+
+  const handleAdd = () => {
+    setEditing(undefined);
+    setDialogOpen(true);
+  };
+
+  const handleEdit = (project: Project) => {
+    setEditing(project);
+    setDialogOpen(true);
+  };
+
+  const handleSave = (project: Project) => {
+    updateSettings(upsertProject(settings, project));
+    toast.success(editing ? "Project updated!" : `Project "${project.name}" added!`);
+  };
+
+  const handleToggleArchived = (project: Project) => {
+    updateSettings(upsertProject(settings, { ...project, archived: !project.archived }));
+    toast.info(project.archived ? `"${project.name}" restored.` : `"${project.name}" archived.`);
+  };
+
+  const handleConfirmDelete = () => {
+    if (!pendingDelete) return;
+    updateSettings(removeProject(settings, pendingDelete.id));
+    setPendingDelete(undefined);
+    toast.info("Project deleted.");
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-4 md:p-8">
+      <div className="mx-auto max-w-4xl space-y-6 animate-fade-in">
+        <header className="space-y-4 animate-slide-up">
+          <Button asChild variant="ghost" size="sm">
+            <Link to="/">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to tracker
+            </Link>
+          </Button>
+          <div className="text-center space-y-2">
+            <h1 className="text-4xl md:text-5xl font-bold bg-gradient-primary bg-clip-text text-transparent">
+              Projects
+            </h1>
+            <p className="text-muted-foreground">Book your hours to the projects and clients they were for, and set what they pay</p>
+          </div>
+        </header>
+
+        <Card className="p-6 shadow-card border-border/50 animate-slide-up" style={{ animationDelay: "0.1s" }}>
+          <div className="mb-4 flex flex-wrap items-center justify-between gap-2">
+            <h2 className="text-lg font-semibold">All Projects</h2>
+            <Button variant="outline" size="sm" onClick={handleAdd}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Project
+            </Button>
+          </div>
+
+          {projects.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <FolderKanban className="h-12 w-12 mx-auto mb-3 opacity-50" />
+              <p>No projects yet. Add one to pick it when you start work.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Project</TableHead>
+                  <TableHead>Client</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="w-32" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sorted.map(project => (
+                  <TableRow key={project.id} className={project.archived ? "text-muted-foreground" : undefined}>
+                    <TableCell>
+                      <ProjectLabel project={{ ...project, client: undefined }} className="font-medium" />
+                    </TableCell>
+                    <TableCell>{project.client ?? "—"}</TableCell>
+                    <TableCell>
+                      <Badge variant={project.archived ? "outline" : "secondary"}>
+                        {project.archived ? "Archived" : "Active"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleEdit(project)}
+                          aria-label={`Edit ${project.name}`}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleToggleArchived(project)}
+                          aria-label={project.archived ? `Restore ${project.name}` : `Archive ${project.name}`}
+                        >
+                          {project.archived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setPendingDelete(project)}
+                          aria-label={`Delete ${project.name}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </Card>
+
+        <RatesCard settings={settings} onChange={updateSettings} />
+      </div>
+
+      <ProjectDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        projects={projects}
+        editing={editing}
+        onSave={handleSave}
+      />
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={open => !open && setPendingDelete(undefined)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {pendingDelete?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Sessions booked to it keep their time but will no longer show a project. Archive the project instead
+              to keep it on past sessions.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirmDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default Projects;
@@ -0,0 +1,469 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { toast } from "sonner";
+import { ArrowLeft, Trash2 } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import BackupCard from "@/components/tracker/BackupCard";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  DEFAULT_TARGETS,
+  TargetFormValues,
+  TrackerSettings,
+  TrackingSettingsFormValues,
+  WeekStartsOn,
+  formatHours,
+  getMaxSessionMinutes,
+  getTargetsAt,
+  getWeekStartsOn,
+  trackingSettingsFormSchema,
+  targetFormSchema,
+  toDateKey,
+  upsertTargetVersion,
+} from "@/lib/settings";
+import { WEEKDAYS, getWeekStart } from "@/lib/weeks";
+import { loadSettings, saveSettings, subscribeToSettingsChanges } from "@/lib/storage";
+import {
+  COMPLIANCE_PRESETS,
+  CUSTOM_RULES,
+  ComplianceFormValues,
+  complianceFormSchema,
+  fromComplianceFormValues,
+  getComplianceName,
+  getComplianceSettings,
+  toComplianceFormValues,
+} from "@/lib/compliance";
+import {
+  ROUNDING_INCREMENTS,
+  RoundingFormValues,
+  describeRounding,
+  fromRoundingFormValues,
+  getRoundingSettings,
+  roundingFormSchema,
+} from "@/lib/rounding";
+
+const Settings = () => {
+  const [settings, setSettings] = useState(loadSettings);
+  const current = getTargetsAt(settings, new Date());
+
+  const form = useForm<TargetFormValues>({
+    resolver: zodResolver(targetFormSchema),
+    defaultValues: {
+      effectiveFrom: toDateKey(getWeekStart(new Date(), getWeekStartsOn(settings))),
+      weeklyTargetHours: current.weeklyTargetMinutes / 60,
+      dailyMinimumHours: current.dailyMinimumMinutes / 60,
+    },
+  });
+
+  const trackingForm = useForm<TrackingSettingsFormValues>({
+    resolver: zodResolver(trackingSettingsFormSchema),
+    defaultValues: {
+      maxSessionHours: getMaxSessionMinutes(settings) / 60,
+      weekStartsOn: getWeekStartsOn(settings),
+    },
+  });
+
+  const complianceForm = useForm<ComplianceFormValues>({
+    resolver: zodResolver(complianceFormSchema),
+    defaultValues: toComplianceFormValues(getComplianceSettings(settings)),
+  });
+
+  const roundingForm = useForm<RoundingFormValues>({
+    resolver: zodResolver(roundingFormSchema),
+    defaultValues: getRoundingSettings(settings),
+  });
+
+  useEffect(() => subscribeToSettingsChanges(setSettings), []);
+
+  // Changes apply to the settings as saved, not as this page loaded them
+  const updateSettings = (update: (saved: TrackerSettings) => TrackerSettings) => setSettings(saveSettings(update));
+
+  const onSubmit = (values: TargetFormValues) => {
+    updateSettings(saved =>
+      upsertTargetVersion(saved, {
+        effectiveFrom: values.effectiveFrom,
+        weeklyTargetMinutes: Math.round(values.weeklyTargetHours * 60),
+        dailyMinimumMinutes: Math.round(values.dailyMinimumHours * 60),
+      }),
+    );
+    toast.success("Targets saved!", {
+      description: `Applies to weeks starting on or after ${values.effectiveFrom}`,
+    });
+  };
+
+  const onTrackingSubmit = (values: TrackingSettingsFormValues) => {
+    updateSettings(saved => ({
+      ...saved,
+      maxSessionMinutes: Math.round(values.maxSessionHours * 60),
+      weekStartsOn: values.weekStartsOn as WeekStartsOn,
+    }));
+    toast.success("Tracking settings saved!");
+  };
+
+  const handleCountryChange = (country: string) => {
+    const preset = COMPLIANCE_PRESETS[country];
+    complianceForm.reset(
+      preset ? toComplianceFormValues({ country, rules: preset.rules }) : { ...complianceForm.getValues(), country },
+    );
+  };
+
+  const onComplianceSubmit = (values: ComplianceFormValues) => {
+    const compliance = fromComplianceFormValues(values);
+    updateSettings(saved => ({ ...saved, compliance }));
+    complianceForm.reset(toComplianceFormValues(compliance));
+    toast.success("Working time rules saved!", { description: getComplianceName(compliance) });
+  };
+
+  const onRoundingSubmit = (values: RoundingFormValues) => {
+    const rounding = fromRoundingFormValues(values);
+    updateSettings(saved => ({ ...saved, rounding }));
+    toast.success("Billing rounding saved!", { description: describeRounding(rounding) });
+  };
+
+  const handleRestored = () => {
+    const restored = loadSettings();
+    setSettings(restored);
+    trackingForm.reset({
+      maxSessionHours: getMaxSessionMinutes(restored) / 60,
+      weekStartsOn: getWeekStartsOn(restored),
+    });
+    complianceForm.reset(toComplianceFormValues(getComplianceSettings(restored)));
+    roundingForm.reset(getRoundingSettings(restored));
+  };
+
+  const handleDelete = (effectiveFrom: string) => {
+    updateSettings(saved => ({ ...saved, targets: saved.targets.filter(t => t.effectiveFrom !== effectiveFrom) }));
+    toast.info("Target version removed.");
+  };
+
+  const complianceField = (name: Exclude<keyof ComplianceFormValues, "country">, label: string, step: string) => (
+    <FormField
+      control={complianceForm.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input
+              type="number"
+              step={step}
+              min="0"
+              {...field}
+              onChange={e => {
+                field.onChange(e);
+                complianceForm.setValue("country", CUSTOM_RULES);
+              }}
+            />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <div className="min-h-screen bg-background p-4 md:p-8">
+      <div className="mx-auto max-w-4xl space-y-6 animate-fade-in">
+        <header className="space-y-4 animate-slide-up">
+          <Button asChild variant="ghost" size="sm">
+            <Link to="/">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to tracker
+            </Link>
+          </Button>
+          <div className="text-center space-y-2">
+            <h1 className="text-4xl md:text-5xl font-bold bg-gradient-primary bg-clip-text text-transparent">
+              Settings
+            </h1>
+            <p className="text-muted-foreground">Set the hours your contract asks of you</p>
+          </div>
+        </header>
+
+        <Card className="p-6 shadow-card border-border/50 animate-slide-up" style={{ animationDelay: "0.1s" }}>
+          <h2 className="text-lg font-semibold mb-4">Targets</h2>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <div className="grid gap-4 md:grid-cols-3">
+                <FormField
+                  control={form.control}
+                  name="weeklyTargetHours"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Weekly target (hours)</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="0.25" min="0" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="dailyMinimumHours"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Daily minimum (hours)</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="0.25" min="0" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="effectiveFrom"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Effective from</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormDescription>
+                Targets apply to every week starting on or after the effective date, so past weeks keep the targets
+                they were tracked against.
+              </FormDescription>
+              <Button type="submit">Save targets</Button>
+            </form>
+          </Form>
+        </Card>
+
+        <Card className="p-6 shadow-card border-border/50 animate-slide-up" style={{ animationDelay: "0.2s" }}>
+          <h2 className="text-lg font-semibold mb-4">Tracking</h2>
+          <Form {...trackingForm}>
+            <form onSubmit={trackingForm.handleSubmit(onTrackingSubmit)} className="space-y-4">
+              <div className="grid gap-4 md:grid-cols-3">
+                <FormField
+                  control={trackingForm.control}
+                  name="weekStartsOn"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Week starts on</FormLabel>
+                      <Select value={String(field.value)} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {WEEKDAYS.map((day, index) => (
+                            <SelectItem key={day} value={String(index)}>
+                              {day}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={trackingForm.control}
+                  name="maxSessionHours"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Maximum session length (hours)</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="0.5" min="1" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormDescription>
+                A new week is started, and the finished one archived, the first time the tracker is opened in a later
+                calendar week. A running session longer than the maximum, or one still running past midnight, is
+                treated as forgotten and you will be asked when it really ended.
+              </FormDescription>
+              <Button type="submit">Save tracking settings</Button>
+            </form>
+          </Form>
+        </Card>
+
+        <Card className="p-6 shadow-card border-border/50 animate-slide-up" style={{ animationDelay: "0.3s" }}>
+          <h2 className="text-lg font-semibold mb-4">Working Time Rules</h2>
+          <Form {...complianceForm}>
+            <form onSubmit={complianceForm.handleSubmit(onComplianceSubmit)} className="space-y-4">
+              <FormField
+                control={complianceForm.control}
+                name="country"
+                render={({ field }) => (
+                  <FormItem className="md:w-1/3">
+                    <FormLabel>Rules for</FormLabel>
+                    <Select value={field.value} onValueChange={handleCountryChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {Object.entries(COMPLIANCE_PRESETS).map(([country, preset]) => (
+                          <SelectItem key={country} value={country}>
+                            {preset.name}
+                          </SelectItem>
+                        ))}
+                        <SelectItem value={CUSTOM_RULES}>Custom rules</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid gap-4 md:grid-cols-3">
+                {complianceField("breakAfterHours", "Break required after (hours)", "0.5")}
+                {complianceField("breakMinutes", "Minimum break (minutes)", "5")}
+                {complianceField("maxDailyHours", "Maximum per day (hours)", "0.5")}
+                {complianceField("longBreakAfterHours", "Longer break after (hours)", "0.5")}
+                {complianceField("longBreakMinutes", "Longer break (minutes)", "5")}
+                {complianceField("minRestHours", "Rest between days (hours)", "0.5")}
+              </div>
+              <FormDescription>
+                Days that break these rules are flagged in the weekly log and the compliance report. Breaks and gaps
+                between sessions of at least 15 minutes count as break time. Enter 0 to turn a rule off.
+              </FormDescription>
+              <Button type="submit">Save working time rules</Button>
+            </form>
+          </Form>
+        </Card>
+
+        <Card className="p-6 shadow-card border-border/50 animate-slide-up" style={{ animationDelay: "0.4s" }}>
+          <h2 className="text-lg font-semibold mb-4">Billing Rounding</h2>
+          <Form {...roundingForm}>
+            <form onSubmit={roundingForm.handleSubmit(onRoundingSubmit)} className="space-y-4">
+              <div className="grid gap-4 md:grid-cols-3">
+                <FormField
+                  control={roundingForm.control}
+                  name="mode"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Rounding</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="off">Off</SelectItem>
+                          <SelectItem value="up">Round up</SelectItem>
+                          <SelectItem value="down">Round down</SelectItem>
+                          <SelectItem value="nearest">Round to nearest</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={roundingForm.control}
+                  name="incrementMinutes"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Increment</FormLabel>
+                      <Select value={String(field.value)} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {ROUNDING_INCREMENTS.map(minutes => (
+                            <SelectItem key={minutes} value={String(minutes)}>
+                              {minutes} {minutes === 1 ? "minute" : "minutes"}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={roundingForm.control}
+                  name="scope"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Apply to</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="session">Each session</SelectItem>
+                          <SelectItem value="day">Each day's total</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormDescription>
+                Billable time is shown next to the tracked time in the weekly log and past weeks, and added as extra
+                columns to CSV exports. Logged sessions always keep their exact times.
+              </FormDescription>
+              <Button type="submit">Save billing rounding</Button>
+            </form>
+          </Form>
+        </Card>
+
+        <Card className="p-6 shadow-card border-border/50 animate-slide-up" style={{ animationDelay: "0.5s" }}>
+          <h2 className="text-lg font-semibold mb-4">Target History</h2>
+          {settings.targets.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Using the defaults: {formatHours(DEFAULT_TARGETS.weeklyTargetMinutes)} per week and{" "}
+              {formatHours(DEFAULT_TARGETS.dailyMinimumMinutes)} per day.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Effective from</TableHead>
+                  <TableHead>Weekly target</TableHead>
+                  <TableHead>Daily minimum</TableHead>
+                  <TableHead className="w-12" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {[...settings.targets].reverse().map(version => (
+                  <TableRow key={version.effectiveFrom}>
+                    <TableCell>{version.effectiveFrom}</TableCell>
+                    <TableCell>{formatHours(version.weeklyTargetMinutes)}</TableCell>
+                    <TableCell>{formatHours(version.dailyMinimumMinutes)}</TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleDelete(version.effectiveFrom)}
+                        aria-label={`Remove targets effective from ${version.effectiveFrom}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </Card>
+
+        <BackupCard onRestored={handleRestored} />
+      </div>
+    </div>
+  );
+};
+
+export default Settings;
@@ -0,0 +1,55 @@
+// A pause within a session; its time does not count toward the duration
+export interface BreakInterval {
+  startTime: string;
+  endTime: string;
+}
+
+export interface WorkSession {
+  id: string;
+  startTime: string;
+  endTime: string; // the duration is derived from the timestamps, see getSessionSeconds
+  projectId?: string; // unset for time not booked to any project
+  note?: string; // what was done
+  tags?: string[];
+  breaks?: BreakInterval[];
+}
+
+// The session being recorded right now
+export interface ActiveSession extends Pick<WorkSession, "projectId" | "note" | "tags"> {
+  startTime: string;
+  breaks?: BreakInterval[]; // finished breaks
+  pausedAt?: string; // start of the break in progress, if on one
+}
+
+export interface DailyEntry {
+  date: string;
+  displayDate: string;
+  sessions: WorkSession[];
+  totalSeconds: number;
+}
+
+export interface WeekData {
+  totalSeconds: number;
+  entries: DailyEntry[];
+  lastResetDate: string;
+  activeSession?: ActiveSession;
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  client?: string;
+  color: string; // hex, shown as a dot next to the project's sessions
+  archived: boolean; // hidden from pickers but kept for past sessions
+}
+
+// A finished week, frozen at the moment it was rolled over
+export interface ArchivedWeek {
+  weekStart: string;
+  weekEnd: string;
+  totalSeconds: number;
+  entries: DailyEntry[];
+  weeklyTargetMinutes: number;
+  dailyMinimumMinutes: number;
+  imported?: boolean; // only made to hold imported sessions, so it has no overtime balance
+}